@@ -3,16 +3,35 @@ import React, { useState, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ScriptMode } from './components/ScriptMode';
 import { VideoTranscriber } from './components/VideoTranscriber';
+import { ChatMode } from './components/ChatMode';
+import { StockMode } from './components/StockMode';
+import { AppMode, ChatMessage } from './types';
 import { Menu } from 'lucide-react';
 
 const THEME_KEY = 'violen_theme';
+const MODE_KEY = 'violen_mode';
 type Theme = 'dark' | 'light';
-type AppMode = 'script' | 'transcribe';
+
+const APP_MODES: AppMode[] = ['script', 'chat', 'transcribe', 'stock'];
+
+// Routes look like "#/chat", so each mode can be bookmarked or opened directly
+const modeFromHash = (): AppMode | null => {
+  const route = window.location.hash.replace(/^#\/?/, '');
+  return APP_MODES.includes(route as AppMode) ? route as AppMode : null;
+};
+
+// The URL wins over the last visited mode, which wins over the default
+const getInitialMode = (): AppMode => {
+  const stored = localStorage.getItem(MODE_KEY) as AppMode;
+  return modeFromHash() || (APP_MODES.includes(stored) ? stored : 'script');
+};
 
 export default function App() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [theme, setTheme] = useState<Theme>('dark');
-  const [activeMode, setActiveMode] = useState<AppMode>('script');
+  const [activeMode, setActiveMode] = useState<AppMode>(getInitialMode);
+  // Lives here so the conversation survives switching modes
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   
   // Theme Management
   useEffect(() => {
@@ -26,6 +45,28 @@ export default function App() {
     }
   }, []);
 
+  // Routing: keep the hash, the stored mode and the active view in step
+  useEffect(() => {
+    if (modeFromHash() !== activeMode) {
+      window.history.replaceState(null, '', `#/${activeMode}`);
+    }
+    localStorage.setItem(MODE_KEY, activeMode);
+  }, [activeMode]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const mode = modeFromHash();
+      if (mode) setActiveMode(mode);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = (mode: AppMode) => {
+    if (mode !== activeMode) window.location.hash = `/${mode}`;
+    setIsSidebarOpen(false);
+  };
+
   const toggleTheme = () => {
     const newTheme = theme === 'dark' ? 'light' : 'dark';
     setTheme(newTheme);
@@ -35,8 +76,12 @@ export default function App() {
 
   const renderContent = () => {
       switch (activeMode) {
+          case 'chat':
+              return <ChatMode messages={chatMessages} onMessagesChange={setChatMessages} theme={theme} />;
           case 'transcribe':
               return <VideoTranscriber theme={theme} />;
+          case 'stock':
+              return <StockMode theme={theme} />;
           case 'script':
           default:
               return <ScriptMode theme={theme} />;
@@ -66,7 +111,7 @@ export default function App() {
           theme={theme}
           onToggleTheme={toggleTheme}
           activeMode={activeMode}
-          onNavigate={(mode) => { setActiveMode(mode); setIsSidebarOpen(false); }}
+          onNavigate={navigate}
         />
       </div>
 
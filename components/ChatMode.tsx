@@ -1,10 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Image as ImageIcon, Loader2, X, Globe, MessageCircle, Copy, Zap, FileText, ChevronDown, Palette, Search, Eye, Code, Map, ShoppingBag, AlignLeft, Film, Lightbulb, Paperclip, Save, FolderOpen, Trash2 } from 'lucide-react';
-import { ChatMessage, BotMode, ChatSession } from '../types';
-import { queryWebNetwork } from '../services/gemini';
+import { Send, Image as ImageIcon, Loader2, X, Globe, MessageCircle, Copy, Zap, FileText, ChevronDown, Palette, Search, Eye, Code, Map, ShoppingBag, AlignLeft, Film, Lightbulb, Paperclip, Save, FolderOpen, Trash2, Plus, Pencil, Upload, Download, AlertTriangle, Square } from 'lucide-react';
+import { ChatMessage, BotMode, ChatSession, CustomBotNode } from '../types';
+import { queryWebNetwork, summarizeConversation } from '../services/gemini';
+import { NODE_PROTOCOLS } from '../services/protocols';
 import { MessageBubble } from './MessageBubble';
-import { fileToBase64, formatTime } from '../utils/helpers';
+import { CustomNodeEditor, NODE_ICONS, normalizeCustomNodes } from './CustomNodeEditor';
+import { StorageUsage } from './StorageUsage';
+import { fileToBase64, formatTime, downloadFile } from '../utils/helpers';
+import { splitByBudget, toContents } from '../utils/chatContext';
+import { annotateCitations } from '../utils/citations';
+import { toScriptSources } from '../utils/sources';
+import { idbGetAll, idbPut, idbDelete, migrateFromLocalStorage, describeStorageError, STORES } from '../utils/idb';
 
 interface ContextMenuState {
   x: number;
@@ -18,7 +25,8 @@ interface ChatModeProps {
   theme: 'dark' | 'light';
 }
 
-const CHAT_ARCHIVE_KEY = 'violen_chat_archives';
+const LEGACY_ARCHIVE_KEY = 'violen_chat_archives'; // Archive location before IndexedDB; migrated on load
+const CUSTOM_NODES_KEY = 'violen_custom_nodes';
 
 const BOT_MODES: { id: BotMode; label: string; icon: React.ElementType; color: string }[] = [
   { id: 'surfer', label: 'Web Surfer', icon: Globe, color: 'text-blue-500' },
@@ -36,19 +44,31 @@ const BOT_MODES: { id: BotMode; label: string; icon: React.ElementType; color: s
 export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange, theme }) => {
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [isCondensing, setIsCondensing] = useState(false);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
-  const [activeBotMode, setActiveBotMode] = useState<BotMode>('surfer');
+  const [activeNodeId, setActiveNodeId] = useState<string>('surfer'); // A BotMode or a custom node id
   const [isModeDropdownOpen, setIsModeDropdownOpen] = useState(false);
+
+  // Custom Node State
+  const [customNodes, setCustomNodes] = useState<CustomBotNode[]>([]);
+  const [nodeEditor, setNodeEditor] = useState<{ node: CustomBotNode | null } | null>(null);
+  const [nodeError, setNodeError] = useState<string | null>(null);
+  const nodeImportRef = useRef<HTMLInputElement>(null);
   
   // Archive State
   const [isArchivesOpen, setIsArchivesOpen] = useState(false);
   const [archives, setArchives] = useState<ChatSession[]>([]);
+  const [archiveError, setArchiveError] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Summary of the turns that fell out of the context window, and the last message it covers
+  const summaryRef = useRef<{ upToId: string; text: string } | null>(null);
   const isDark = theme === 'dark';
 
   const scrollToBottom = () => {
@@ -70,14 +90,64 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
 
   // Load Archives
   useEffect(() => {
-    const stored = localStorage.getItem(CHAT_ARCHIVE_KEY);
+    migrateFromLocalStorage<ChatSession>(LEGACY_ARCHIVE_KEY, STORES.chatArchives)
+        .then(() => idbGetAll<ChatSession>(STORES.chatArchives))
+        .then(sessions => setArchives(sessions.sort((a, b) => b.timestamp - a.timestamp)))
+        .catch(err => setArchiveError(`Chat archives unavailable: ${err?.message || 'IndexedDB is blocked in this browser.'}`));
+  }, []);
+
+  // Stop any in-flight reply when leaving the chat
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Load Custom Nodes
+  useEffect(() => {
+    const stored = localStorage.getItem(CUSTOM_NODES_KEY);
     if (stored) {
         try {
-            setArchives(JSON.parse(stored));
-        } catch (e) { console.error("Failed to load chat archives"); }
+            setCustomNodes(normalizeCustomNodes(JSON.parse(stored)));
+        } catch (e) { console.error("Failed to load custom nodes"); }
     }
   }, []);
 
+  const saveCustomNodes = (nodes: CustomBotNode[]) => {
+      setCustomNodes(nodes);
+      localStorage.setItem(CUSTOM_NODES_KEY, JSON.stringify(nodes));
+  };
+
+  const handleSaveNode = (node: CustomBotNode) => {
+      const exists = customNodes.some(n => n.id === node.id);
+      saveCustomNodes(exists ? customNodes.map(n => n.id === node.id ? node : n) : [...customNodes, node]);
+      setActiveNodeId(node.id);
+      setNodeEditor(null);
+  };
+
+  const handleDeleteNode = (id: string) => {
+      saveCustomNodes(customNodes.filter(n => n.id !== id));
+      if (activeNodeId === id) setActiveNodeId('surfer');
+      setNodeEditor(null);
+  };
+
+  const exportCustomNodes = () => {
+      downloadFile(JSON.stringify(customNodes, null, 2), 'violen-nodes.json', 'application/json');
+  };
+
+  // Imported nodes replace local ones with the same id, so re-importing a shared file updates it
+  const handleImportNodes = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const imported = normalizeCustomNodes(JSON.parse(await file.text()));
+          const importedIds = new Set(imported.map(n => n.id));
+          saveCustomNodes([...customNodes.filter(n => !importedIds.has(n.id)), ...imported]);
+          setNodeError(null);
+      } catch (err: any) {
+          setNodeError(`Couldn't import nodes from ${file.name}: ${err instanceof SyntaxError ? 'not valid JSON.' : err.message}`);
+      }
+  };
+
   const saveCurrentSession = () => {
     if (messages.length === 0) return;
     
@@ -89,9 +159,13 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
         timestamp: Date.now()
     };
     
-    const newArchives = [session, ...archives];
-    setArchives(newArchives);
-    localStorage.setItem(CHAT_ARCHIVE_KEY, JSON.stringify(newArchives));
+    // Uploaded images are stored inline, so large sessions are the ones likely to hit the quota
+    idbPut(STORES.chatArchives, session)
+        .then(() => {
+            setArchives(prev => [session, ...prev]);
+            setArchiveError(null);
+        })
+        .catch(async err => setArchiveError(await describeStorageError(err, "Couldn't archive this investigation")));
     setIsArchivesOpen(true);
   };
 
@@ -102,9 +176,9 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
 
   const deleteSession = (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
-      const newArchives = archives.filter(a => a.id !== id);
-      setArchives(newArchives);
-      localStorage.setItem(CHAT_ARCHIVE_KEY, JSON.stringify(newArchives));
+      idbDelete(STORES.chatArchives, id)
+          .then(() => setArchives(prev => prev.filter(a => a.id !== id)))
+          .catch(async err => setArchiveError(await describeStorageError(err, "Couldn't delete from the archives")));
   };
 
   const handleContextMenu = (e: React.MouseEvent) => {
@@ -151,6 +225,28 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // Reuses the cached summary when the overflow hasn't moved, and extends it with only the
+  // newly overflowed turns when it has. Anything else (e.g. a loaded archive) starts over.
+  const getContextSummary = async (overflow: ChatMessage[], signal: AbortSignal): Promise<string> => {
+    if (overflow.length === 0) return '';
+    const cached = summaryRef.current;
+    const lastId = overflow[overflow.length - 1].id;
+    if (cached?.upToId === lastId) return cached.text;
+
+    const coveredIdx = cached ? overflow.findIndex(m => m.id === cached.upToId) : -1;
+    const pending = coveredIdx === -1 ? overflow : overflow.slice(coveredIdx + 1);
+    setIsCondensing(true);
+    try {
+      const text = await summarizeConversation(pending, coveredIdx === -1 ? undefined : cached?.text, signal);
+      // A stopped summary doesn't cover `pending`, so it mustn't be cached as if it did
+      if (signal.aborted) return '';
+      summaryRef.current = text ? { upToId: lastId, text } : null;
+      return text;
+    } finally {
+      setIsCondensing(false);
+    }
+  };
+
   const handleSend = async () => {
     if ((!inputText.trim() && !selectedImage) || isLoading) return;
 
@@ -177,28 +273,56 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
       clearImage();
     }
 
+    const abort = new AbortController();
+    abortRef.current = abort;
+    const botMessageId = (Date.now() + 1).toString();
+
     try {
-      const response = await queryWebNetwork(userMessage.text, imageBase64, imageMimeType, activeBotMode);
-      
+      const activeNode = customNodes.find(n => n.id === activeNodeId) || activeNodeId as BotMode;
+      const { recent, overflow } = splitByBudget(messages);
+      const contextSummary = await getContextSummary(overflow, abort.signal);
+      // Stopped while condensing: keep the question, skip the request
+      if (abort.signal.aborted) return;
+      const response = await queryWebNetwork(userMessage.text, imageBase64, imageMimeType, activeNode, {
+        history: toContents(recent),
+        contextSummary,
+        signal: abort.signal,
+        // The reply bubble appears with the first chunk and grows in place
+        onChunk: (text) => {
+          setStreamingId(botMessageId);
+          onMessagesChange([...messages, userMessage, { id: botMessageId, role: 'model', text, timestamp: Date.now() }]);
+        }
+      });
+
+      if (response.stopped && !response.text) {
+        onMessagesChange([...messages, userMessage]);
+        return;
+      }
+
       const botMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: botMessageId,
         role: 'model',
-        text: response.text,
+        text: annotateCitations(response.text, response.groundingChunks, response.groundingSupports),
         timestamp: Date.now(),
-        sources: response.groundingChunks?.map(chunk => ({
-          title: chunk.web?.title,
-          uri: chunk.web?.uri
-        })).filter(s => s.uri) 
+        stopped: response.stopped,
+        sources: toScriptSources(response.groundingChunks)
       };
 
       onMessagesChange([...messages, userMessage, botMessage]);
     } catch (error) {
       console.error("Network Packet Loss", error);
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  // Keeps whatever has streamed so far
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -206,7 +330,8 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
     }
   };
 
-  const activeModeData = BOT_MODES.find(m => m.id === activeBotMode) || BOT_MODES[0];
+  const customModes = customNodes.map(node => ({ id: node.id, label: node.label, icon: NODE_ICONS[node.icon] || NODE_ICONS.bot, color: node.color }));
+  const activeModeData = [...BOT_MODES, ...customModes].find(m => m.id === activeNodeId) || BOT_MODES[0];
   const ActiveIcon = activeModeData.icon;
 
   return (
@@ -273,11 +398,11 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
                     <div className="px-2 py-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">Nodes</div>
                     {BOT_MODES.map(mode => {
                     const ModeIcon = mode.icon;
-                    const isActive = activeBotMode === mode.id;
+                    const isActive = activeNodeId === mode.id;
                     return (
                         <button
                         key={mode.id}
-                        onClick={() => { setActiveBotMode(mode.id); setIsModeDropdownOpen(false); }}
+                        onClick={() => { setActiveNodeId(mode.id); setIsModeDropdownOpen(false); }}
                         className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors 
                             ${isActive 
                                 ? isDark ? 'bg-zinc-800 text-white' : 'bg-slate-100 text-slate-900' 
@@ -285,17 +410,83 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
                         `}
                         >
                         <ModeIcon className={`w-4 h-4 ${mode.color}`} />
-                        <span className="text-sm font-medium">{mode.label}</span>
+                        <span className="text-sm font-medium flex-1">{mode.label}</span>
+                        {!NODE_PROTOCOLS[mode.id].useSearch && (
+                            <span className="text-[9px] font-mono uppercase opacity-50" title="Answers without web search">Offline</span>
+                        )}
                         </button>
                     );
                     })}
+
+                    <div className="px-2 pt-3 pb-1.5 flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Custom</span>
+                        <span className="flex items-center gap-0.5">
+                            <button onClick={() => nodeImportRef.current?.click()} className="p-1 rounded text-slate-500 hover:text-violet-500" title="Import Nodes (JSON)">
+                                <Upload className="w-3 h-3" />
+                            </button>
+                            <button onClick={exportCustomNodes} disabled={customNodes.length === 0} className="p-1 rounded text-slate-500 hover:text-violet-500 disabled:opacity-30" title="Export Nodes (JSON)">
+                                <Download className="w-3 h-3" />
+                            </button>
+                        </span>
+                    </div>
+                    {customModes.map(mode => {
+                    const ModeIcon = mode.icon;
+                    const isActive = activeNodeId === mode.id;
+                    return (
+                        <div
+                        key={mode.id}
+                        onClick={() => { setActiveNodeId(mode.id); setIsModeDropdownOpen(false); }}
+                        className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors cursor-pointer group
+                            ${isActive 
+                                ? isDark ? 'bg-zinc-800 text-white' : 'bg-slate-100 text-slate-900' 
+                                : isDark ? 'text-zinc-400 hover:bg-zinc-800/50' : 'text-slate-500 hover:bg-slate-50'}
+                        `}
+                        >
+                        <ModeIcon className={`w-4 h-4 ${mode.color}`} />
+                        <span className="text-sm font-medium flex-1 truncate">{mode.label}</span>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setIsModeDropdownOpen(false); setNodeEditor({ node: customNodes.find(n => n.id === mode.id) || null }); }}
+                            className="opacity-0 group-hover:opacity-100 transition-opacity text-slate-500 hover:text-violet-500"
+                            title="Edit Node"
+                        >
+                            <Pencil className="w-3 h-3" />
+                        </button>
+                        </div>
+                    );
+                    })}
+                    <button
+                        onClick={() => { setIsModeDropdownOpen(false); setNodeEditor({ node: null }); }}
+                        className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors ${isDark ? 'text-zinc-500 hover:bg-zinc-800/50' : 'text-slate-500 hover:bg-slate-50'}`}
+                    >
+                        <Plus className="w-4 h-4" />
+                        <span className="text-sm font-medium">New Node</span>
+                    </button>
                 </div>
                 </div>
             )}
+            <input type="file" ref={nodeImportRef} onChange={handleImportNodes} accept="application/json,.json" className="hidden" />
             </div>
         </div>
       </header>
 
+      {nodeError && (
+          <div className="px-4 py-2 flex items-center gap-2 text-xs bg-red-500/10 text-red-500 border-b border-red-500/20">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1">{nodeError}</span>
+              <button onClick={() => setNodeError(null)} title="Dismiss"><X className="w-3.5 h-3.5" /></button>
+          </div>
+      )}
+
+      {nodeEditor && (
+          <CustomNodeEditor
+              node={nodeEditor.node}
+              onSave={handleSaveNode}
+              onDelete={handleDeleteNode}
+              onClose={() => setNodeEditor(null)}
+              theme={theme}
+          />
+      )}
+
       {/* Main Content Area (Split for Archive Drawer) */}
       <div className="flex-1 overflow-hidden flex relative">
           
@@ -313,10 +504,10 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
                   </div>
             ) : (
                 messages.map(msg => (
-                <MessageBubble key={msg.id} message={msg} theme={theme} />
+                <MessageBubble key={msg.id} message={msg} theme={theme} isStreaming={msg.id === streamingId} />
                 ))
             )}
-            {isLoading && (
+            {isLoading && !streamingId && (
             <div className="flex justify-start animate-fade-in">
                 <div className={`flex items-center gap-3 px-4 py-3 rounded-2xl border ${
                     isDark 
@@ -325,7 +516,7 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
                 }`}>
                 <Loader2 className="w-4 h-4 text-violet-500 animate-spin" />
                 <span className={`text-xs font-medium ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}>
-                    Thinking...
+                    {isCondensing ? 'Condensing earlier messages...' : 'Thinking...'}
                 </span>
                 </div>
             </div>
@@ -335,7 +526,7 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
 
           {/* Archive Drawer */}
           <div className={`
-              absolute top-0 right-0 bottom-0 w-80 shadow-2xl transition-transform duration-300 transform border-l
+              absolute top-0 right-0 bottom-0 w-80 flex flex-col shadow-2xl transition-transform duration-300 transform border-l
               ${isArchivesOpen ? 'translate-x-0' : 'translate-x-full'}
               ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200'}
           `}>
@@ -343,7 +534,17 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
                   <h3 className={`font-bold text-xs uppercase tracking-widest ${isDark ? 'text-zinc-400' : 'text-slate-600'}`}>Case Archives</h3>
                   <button onClick={() => setIsArchivesOpen(false)} className="opacity-50 hover:opacity-100"><X className="w-4 h-4" /></button>
               </div>
-              <div className="overflow-y-auto h-full p-2 space-y-1">
+              <div className="px-4 py-3 space-y-2 border-b border-zinc-800/50">
+                  <StorageUsage refreshKey={archives} theme={theme} />
+                  {archiveError && (
+                      <div className="flex items-start gap-2 text-[11px] text-red-500">
+                          <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                          <span className="flex-1">{archiveError}</span>
+                          <button onClick={() => setArchiveError(null)} title="Dismiss"><X className="w-3 h-3" /></button>
+                      </div>
+                  )}
+              </div>
+              <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1">
                 {archives.map(session => (
                     <div 
                         key={session.id}
@@ -460,19 +661,29 @@ export const ChatMode: React.FC<ChatModeProps> = ({ messages, onMessagesChange,
               style={{ height: 'auto', minHeight: '44px' }} 
             />
 
+            {isLoading ? (
+            <button
+              onClick={handleStop}
+              className={`p-3 rounded-xl transition-all shadow-md flex-shrink-0 ${isDark ? 'bg-zinc-800 text-zinc-200 hover:bg-zinc-700' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+              title="Stop Generating"
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+            ) : (
             <button
               onClick={handleSend}
-              disabled={isLoading || (!inputText.trim() && !selectedImage)}
+              disabled={!inputText.trim() && !selectedImage}
               className={`
                 p-3 rounded-xl transition-all shadow-md flex-shrink-0
-                ${isLoading || (!inputText.trim() && !selectedImage)
+                ${!inputText.trim() && !selectedImage
                     ? isDark ? 'bg-zinc-800 text-zinc-600' : 'bg-slate-100 text-slate-300'
                     : 'bg-violet-600 hover:bg-violet-500 text-white shadow-violet-500/20'
                 }
               `}
             >
-              {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
+              <Send className="w-5 h-5" />
             </button>
+            )}
           </div>
         </div>
       </div>
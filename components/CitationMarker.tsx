@@ -0,0 +1,40 @@
+import React from 'react';
+import { getSourceDomain } from '../utils/sources';
+
+interface CitationMarkerProps {
+  index: number; // 1-based, as shown in the text
+  source?: { title?: string; uri?: string };
+  accent: string; // Text color class for the marker
+  theme: 'dark' | 'light';
+}
+
+// ----------------------------------------------------------------------
+// COMPONENT: Citation Marker (superscript link with a source preview on hover)
+// ----------------------------------------------------------------------
+export const CitationMarker: React.FC<CitationMarkerProps> = ({ index, source, accent, theme }) => {
+  const isDark = theme === 'dark';
+  const domain = source ? getSourceDomain(source) : '';
+
+  return (
+    <sup className="relative group/cite inline-block mx-px">
+      <a
+        href={source?.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`font-mono text-[10px] font-bold no-underline hover:underline ${accent}`}
+      >
+        [{index}]
+      </a>
+      {source && (
+        <span className={`pointer-events-none absolute bottom-full left-1/2 -translate-x-1/2 mb-1.5 w-56 px-3 py-2 rounded-lg border shadow-xl text-left normal-case tracking-normal opacity-0 group-hover/cite:opacity-100 transition-opacity z-30 ${
+          isDark ? 'bg-zinc-950 border-zinc-700' : 'bg-white border-slate-200'
+        }`}>
+          <span className={`block text-xs font-semibold leading-snug break-words ${isDark ? 'text-zinc-100' : 'text-slate-900'}`}>{source.title || 'Web Source'}</span>
+          {domain && domain !== source.title && (
+            <span className={`block text-[10px] font-mono mt-0.5 truncate ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>{domain}</span>
+          )}
+        </span>
+      )}
+    </sup>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ShieldCheck, ShieldX, ShieldQuestion } from 'lucide-react';
+import { ClaimVerdict, FactCheckClaim } from '../types';
+
+interface ClaimHighlightProps {
+  claim?: FactCheckClaim;
+  theme: 'dark' | 'light';
+  onSelect?: (claim: FactCheckClaim) => void;
+  children: React.ReactNode;
+}
+
+export const VERDICT_STYLES: Record<ClaimVerdict, { label: string; icon: React.ElementType; text: string; mark: string; border: string }> = {
+  supported: { label: 'Supported', icon: ShieldCheck, text: 'text-emerald-500', mark: 'bg-emerald-500/10 decoration-emerald-500', border: 'border-l-emerald-500' },
+  contradicted: { label: 'Contradicted', icon: ShieldX, text: 'text-red-500', mark: 'bg-red-500/15 decoration-red-500', border: 'border-l-red-500' },
+  unverified: { label: 'Unverified', icon: ShieldQuestion, text: 'text-amber-500', mark: 'bg-amber-500/10 decoration-amber-500', border: 'border-l-amber-500' }
+};
+
+// ----------------------------------------------------------------------
+// COMPONENT: Claim Highlight (verdict underline with the explanation on hover)
+// ----------------------------------------------------------------------
+export const ClaimHighlight: React.FC<ClaimHighlightProps> = ({ claim, theme, onSelect, children }) => {
+  const isDark = theme === 'dark';
+  if (!claim) return <>{children}</>;
+  const style = VERDICT_STYLES[claim.verdict];
+  const Icon = style.icon;
+
+  return (
+    <span className="relative group/claim">
+      <mark
+        onClick={() => onSelect?.(claim)}
+        className={`text-inherit rounded-sm px-0.5 underline decoration-2 decoration-wavy underline-offset-4 cursor-pointer ${style.mark}`}
+      >
+        {children}
+      </mark>
+      <span className={`pointer-events-none absolute bottom-full left-0 mb-2 w-72 px-3 py-2.5 rounded-sm border shadow-xl text-left not-italic opacity-0 group-hover/claim:opacity-100 transition-opacity z-30 ${
+        isDark ? 'bg-zinc-950 border-zinc-700' : 'bg-white border-slate-200'
+      }`}>
+        <span className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider ${style.text}`}>
+          <Icon className="w-3.5 h-3.5" /> {style.label}
+        </span>
+        <span className={`block text-xs leading-snug mt-1 ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{claim.explanation || claim.claim}</span>
+        {claim.sources.length > 0 && (
+          <span className={`block text-[10px] font-mono mt-1.5 truncate ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+            {claim.sources.length} source{claim.sources.length === 1 ? '' : 's'} checked
+          </span>
+        )}
+      </span>
+    </span>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { X, Trash2, Bot, Mic, Skull, Newspaper, Gamepad2, Music, Camera, Briefcase, Brain, Flame, Rocket, Ghost } from 'lucide-react';
+import { CustomBotNode } from '../types';
+import { NODE_MODELS, NODE_PROTOCOLS } from '../services/protocols';
+
+interface CustomNodeEditorProps {
+  node: CustomBotNode | null; // null creates a new node
+  onSave: (node: CustomBotNode) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  theme: 'dark' | 'light';
+}
+
+export const NODE_ICONS: Record<string, React.ElementType> = {
+  bot: Bot, mic: Mic, skull: Skull, newspaper: Newspaper, gamepad: Gamepad2, music: Music,
+  camera: Camera, briefcase: Briefcase, brain: Brain, flame: Flame, rocket: Rocket, ghost: Ghost
+};
+
+export const NODE_COLORS = [
+  'text-red-500', 'text-orange-500', 'text-amber-500', 'text-lime-500', 'text-emerald-500', 'text-cyan-500',
+  'text-blue-500', 'text-violet-500', 'text-fuchsia-500', 'text-pink-500', 'text-zinc-400'
+];
+
+const createBlankNode = (): CustomBotNode => ({
+  id: Date.now().toString(),
+  label: '',
+  icon: 'bot',
+  color: NODE_COLORS[0],
+  systemPrompt: '',
+  useSearch: true,
+  model: NODE_MODELS[0].id
+});
+
+const isOwnKey = (record: object, key: unknown) =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(record, key);
+
+// Accepts a single node or a list from an imported file and fills in anything missing.
+// Throws on shapes that can't be a node, so a bad file never half-imports.
+export const normalizeCustomNodes = (raw: unknown): CustomBotNode[] => {
+  const list = Array.isArray(raw) ? raw : [raw];
+  return list.map((item: any, idx) => {
+    if (!item || typeof item.label !== 'string' || !item.label.trim() || typeof item.systemPrompt !== 'string') {
+      throw new Error(`Node ${idx + 1} needs at least a "label" and a "systemPrompt".`);
+    }
+    // An id shared with a built-in node would shadow it in the node picker, so it gets a fresh one
+    const hasUsableId = typeof item.id === 'string' && item.id && !isOwnKey(NODE_PROTOCOLS, item.id);
+    return {
+      id: hasUsableId ? item.id : `${Date.now()}-${idx}`,
+      label: item.label.trim(),
+      icon: isOwnKey(NODE_ICONS, item.icon) ? item.icon : 'bot',
+      color: NODE_COLORS.includes(item.color) ? item.color : NODE_COLORS[0],
+      systemPrompt: item.systemPrompt,
+      useSearch: item.useSearch !== false,
+      model: NODE_MODELS.some(model => model.id === item.model) ? item.model : NODE_MODELS[0].id
+    };
+  });
+};
+
+export const CustomNodeEditor: React.FC<CustomNodeEditorProps> = ({ node, onSave, onDelete, onClose, theme }) => {
+  const [draft, setDraft] = useState<CustomBotNode>(node || createBlankNode());
+  const isDark = theme === 'dark';
+  const canSave = draft.label.trim().length > 0 && draft.systemPrompt.trim().length > 0;
+
+  const inputClass = `w-full rounded-lg px-3 py-2 text-sm outline-none border transition-all ${
+    isDark ? 'bg-zinc-950 border-zinc-700 text-zinc-100 focus:border-violet-500' : 'bg-white border-slate-300 text-slate-900 focus:border-violet-500'
+  }`;
+  const labelClass = `block text-[10px] font-bold uppercase tracking-wider mb-1.5 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl border shadow-2xl animate-fade-in ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-white border-slate-200'}`}
+      >
+        <div className={`px-5 py-4 border-b flex items-center justify-between ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+          <h3 className={`text-sm font-bold ${isDark ? 'text-white' : 'text-slate-900'}`}>{node ? 'Edit Node' : 'New Node'}</h3>
+          <button onClick={onClose} className="p-1 rounded-lg text-zinc-500 hover:text-zinc-300" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              placeholder="e.g. Midnight Files House Style"
+              className={inputClass}
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Icon</label>
+              <div className="grid grid-cols-6 gap-1">
+                {Object.entries(NODE_ICONS).map(([key, Icon]) => (
+                  <button
+                    key={key}
+                    onClick={() => setDraft({ ...draft, icon: key })}
+                    className={`p-1.5 rounded-lg flex items-center justify-center transition-colors ${
+                      draft.icon === key ? isDark ? 'bg-zinc-700' : 'bg-slate-200' : isDark ? 'hover:bg-zinc-800' : 'hover:bg-slate-100'
+                    }`}
+                    title={key}
+                  >
+                    <Icon className={`w-4 h-4 ${draft.color}`} />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Color</label>
+              <div className="flex flex-wrap gap-1.5">
+                {NODE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setDraft({ ...draft, color })}
+                    className={`w-5 h-5 rounded-full border-2 ${color.replace('text-', 'bg-')} ${draft.color === color ? (isDark ? 'border-white' : 'border-slate-900') : 'border-transparent'}`}
+                    title={color.replace('text-', '')}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>System Prompt</label>
+            <textarea
+              value={draft.systemPrompt}
+              onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+              placeholder="Describe the role, house style, vocabulary and output format this node should follow..."
+              rows={7}
+              className={`${inputClass} resize-y font-mono text-xs leading-relaxed`}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Preferred Model</label>
+              <select
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                className={inputClass}
+              >
+                {NODE_MODELS.map(model => (
+                  <option key={model.id} value={model.id}>{model.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Google Search</label>
+              <button
+                onClick={() => setDraft({ ...draft, useSearch: !draft.useSearch })}
+                className={`w-full rounded-lg px-3 py-2 text-sm border text-left transition-colors ${
+                  draft.useSearch
+                    ? 'border-violet-500 text-violet-500 bg-violet-500/10'
+                    : isDark ? 'border-zinc-700 text-zinc-500' : 'border-slate-300 text-slate-500'
+                }`}
+              >
+                {draft.useSearch ? 'Grounded in web search' : 'Off (model knowledge only)'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className={`px-5 py-4 border-t flex items-center gap-2 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+          {node && (
+            <button
+              onClick={() => onDelete(node.id)}
+              className="px-3 py-2 rounded-lg text-xs font-bold text-red-500 hover:bg-red-500/10 flex items-center gap-1.5 transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Delete
+            </button>
+          )}
+          <div className="flex-1"></div>
+          <button
+            onClick={onClose}
+            className={`px-4 py-2 rounded-lg text-xs font-bold transition-colors ${isDark ? 'text-zinc-400 hover:bg-zinc-800' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, label: draft.label.trim() })}
+            disabled={!canSave}
+            className="px-4 py-2 rounded-lg text-xs font-bold bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            Save Node
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
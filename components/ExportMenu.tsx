@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, Loader2, ChevronDown } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat, ScriptExportInput, exportScript } from '../utils/scriptExport';
+import { downloadFile } from '../utils/helpers';
+
+interface ExportMenuProps {
+  fileName: string; // Without extension
+  getInput: () => ScriptExportInput;
+  theme: 'dark' | 'light';
+}
+
+// ----------------------------------------------------------------------
+// COMPONENT: Export Menu (Markdown, Word, PDF and Fountain downloads)
+// ----------------------------------------------------------------------
+export const ExportMenu: React.FC<ExportMenuProps> = ({ fileName, getInput, theme }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+  const rootRef = useRef<HTMLDivElement>(null);
+  const isDark = theme === 'dark';
+
+  // Close on Outside Click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const runExport = async (format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(item => item.id === format)!;
+    setExporting(format);
+    setError('');
+    try {
+      const content = await exportScript(format, getInput());
+      downloadFile(content, `${fileName}.${extension}`, mimeType);
+      setIsOpen(false);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message || 'Unknown error'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div ref={rootRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`}
+        title="Export Script"
+      >
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 top-full mt-1 w-56 z-30 rounded-sm border shadow-xl py-1 ${isDark ? 'bg-zinc-950 border-zinc-700' : 'bg-white border-slate-200'}`}>
+          <div className={`px-3 py-1.5 text-[10px] font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>Export As</div>
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => runExport(format.id)}
+              disabled={exporting !== null}
+              className={`w-full flex items-center justify-between px-3 py-2 text-xs text-left transition-colors disabled:opacity-50 ${isDark ? 'text-zinc-300 hover:bg-zinc-800' : 'text-slate-700 hover:bg-slate-100'}`}
+            >
+              {format.label}
+              {exporting === format.id
+                ? <Loader2 className="w-3 h-3 animate-spin text-red-500" />
+                : <span className={`text-[10px] font-mono ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>.{format.extension}</span>}
+            </button>
+          ))}
+          {error && <div className="px-3 py-2 text-[10px] font-mono text-red-500 border-t border-red-900/30">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,12 +2,15 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { ChatMessage } from '../types';
 import { User, Cpu, ExternalLink, Image as ImageIcon, Download, Search, Play, Youtube, VideoOff, RefreshCw, AlertTriangle } from 'lucide-react';
 import { formatTime } from '../utils/helpers';
+import { parseCitationHref } from '../utils/citations';
+import { CitationMarker } from './CitationMarker';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 interface MessageBubbleProps {
   message: ChatMessage;
   theme?: 'dark' | 'light';
+  isStreaming?: boolean;
 }
 
 // Static definition to prevent re-creation on render
@@ -193,7 +196,7 @@ const MarkdownImage = React.memo(MarkdownImageComponent);
 // ----------------------------------------------------------------------
 // MAIN COMPONENT: MessageBubble
 // ----------------------------------------------------------------------
-const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme = 'dark' }) => {
+const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme = 'dark', isStreaming = false }) => {
   const isUser = message.role === 'user';
   const isDark = theme === 'dark';
 
@@ -238,6 +241,10 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
     
     // Links - Using Memoized YouTubeEmbed
     a: ({href, children}: any) => {
+      const citation = parseCitationHref(href);
+      if (citation !== null) {
+        return <CitationMarker index={citation} source={message.sources?.[citation - 1]} accent="text-violet-500" theme={theme} />;
+      }
       const isYouTube = href && (href.includes('youtube.com/watch') || href.includes('youtu.be/'));
       return (
         <>
@@ -259,7 +266,7 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
     th: ({children}: any) => <th className="p-3 font-semibold text-xs uppercase tracking-wider">{children}</th>,
     td: ({children}: any) => <td className="p-3 text-sm">{children}</td>,
     hr: () => <hr className={`my-6 border-t ${isUser ? 'border-white/20' : isDark ? 'border-zinc-800' : 'border-slate-200'}`} />
-  }), [isUser, isDark, theme]);
+  }), [isUser, isDark, theme, message.sources]);
 
   return (
     <div className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'} mb-6 group`}>
@@ -286,6 +293,11 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
             <span className={`text-[10px] ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
                 {formatTime(message.timestamp)}
             </span>
+            {message.stopped && (
+                <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded ${isDark ? 'bg-zinc-800 text-zinc-500' : 'bg-slate-100 text-slate-500'}`}>
+                    Stopped
+                </span>
+            )}
           </div>
 
           <div className={`
@@ -312,6 +324,7 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
               >
                 {message.text}
               </Markdown>
+              {isStreaming && <span className="inline-block w-2 h-4 -mb-0.5 bg-violet-500 animate-pulse" />}
             </div>
           </div>
 
@@ -327,8 +340,9 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
                       : 'bg-white border-slate-200 text-slate-500 hover:text-violet-600 hover:border-violet-200'
                   }`}
                 >
-                  <ExternalLink className="w-3 h-3 opacity-70" />
+                  <span className="font-mono opacity-70">[{idx + 1}]</span>
                   <span className="truncate">{source.title || 'Web Source'}</span>
+                  <ExternalLink className="w-3 h-3 opacity-70 flex-shrink-0" />
                 </a>
               ))}
             </div>
@@ -341,5 +355,5 @@ const MessageBubbleComponent: React.FC<MessageBubbleProps> = ({ message, theme =
 
 // Strict memoization comparison
 export const MessageBubble = React.memo(MessageBubbleComponent, (prev, next) => {
-    return prev.message === next.message && prev.theme === next.theme;
+    return prev.message === next.message && prev.theme === next.theme && prev.isStreaming === next.isStreaming;
 });
\ No newline at end of file
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, AlertTriangle } from 'lucide-react';
+import { ScriptSectionKind } from '../types';
+import { ScriptRuntime, SectionRuntime, MID_ROLL_MIN_SECONDS, formatRuntime } from '../utils/runtime';
+import { SECTION_LABELS } from '../utils/scriptDocument';
+
+interface RuntimeTimelineProps {
+  runtime: ScriptRuntime;
+  wordsPerMinute: number;
+  onWordsPerMinuteChange: (wpm: number) => void;
+  onSelectSection: (index: number) => void;
+  theme: 'dark' | 'light';
+}
+
+const KIND_COLORS: Record<ScriptSectionKind, string> = {
+  hook: 'bg-red-600',
+  intro: 'bg-orange-500',
+  body: 'bg-zinc-500',
+  conclusion: 'bg-sky-600',
+  theories: 'bg-violet-600'
+};
+
+const WPM_RANGE = { min: 60, max: 260 };
+
+const clampWpm = (value: number) => Math.min(WPM_RANGE.max, Math.max(WPM_RANGE.min, value));
+
+const describePace = (section: SectionRuntime) => {
+  const label = section.title || SECTION_LABELS[section.kind];
+  const direction = section.pace === 'long' ? 'runs long' : 'runs short';
+  return `${label} ${direction}: ${formatRuntime(section.seconds)} against ~${formatRuntime(section.targetSeconds)}`;
+};
+
+// ----------------------------------------------------------------------
+// COMPONENT: Runtime Timeline (estimated narration time per section)
+// ----------------------------------------------------------------------
+export const RuntimeTimeline: React.FC<RuntimeTimelineProps> = ({ runtime, wordsPerMinute, onWordsPerMinuteChange, onSelectSection, theme }) => {
+  const isDark = theme === 'dark';
+  const { sections, totalSeconds, targetSeconds } = runtime;
+  // The bar spans whichever is longer, so overruns show past the target marker
+  const scale = Math.max(totalSeconds, targetSeconds, 1);
+  const flagged = sections.filter(section => section.pace !== 'ok');
+  const showMidRoll = targetSeconds >= MID_ROLL_MIN_SECONDS;
+  const drift = totalSeconds - targetSeconds;
+  // The field edits a draft so clearing or retyping it doesn't push 0 WPM into the estimate
+  const [wpmDraft, setWpmDraft] = useState(String(wordsPerMinute));
+
+  useEffect(() => {
+    setWpmDraft(String(wordsPerMinute));
+  }, [wordsPerMinute]);
+
+  const changeWpm = (value: string) => {
+    setWpmDraft(value);
+    const wpm = parseInt(value);
+    if (wpm >= WPM_RANGE.min && wpm <= WPM_RANGE.max) onWordsPerMinuteChange(wpm);
+  };
+
+  const commitWpm = () => {
+    const wpm = parseInt(wpmDraft);
+    const committed = Number.isNaN(wpm) ? wordsPerMinute : clampWpm(wpm);
+    setWpmDraft(String(committed));
+    if (committed !== wordsPerMinute) onWordsPerMinuteChange(committed);
+  };
+
+  return (
+    <div className={`px-6 py-3 border-b space-y-2 ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-300'}`}>
+      <div className="flex items-center gap-3 text-[10px] font-mono">
+        <span className={`flex items-center gap-1.5 font-bold uppercase tracking-wider ${isDark ? 'text-zinc-400' : 'text-slate-600'}`}>
+          <Clock className="w-3.5 h-3.5" /> ~{formatRuntime(totalSeconds)}
+        </span>
+        {targetSeconds > 0 && (
+          <span className={Math.abs(drift) > targetSeconds * 0.15 ? 'text-amber-500' : isDark ? 'text-zinc-500' : 'text-slate-500'}>
+            target {formatRuntime(targetSeconds)} ({drift >= 0 ? '+' : '-'}{formatRuntime(Math.abs(drift))})
+          </span>
+        )}
+        <div className="flex-1"></div>
+        <label className={`flex items-center gap-1.5 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+          <input
+            type="number"
+            min={WPM_RANGE.min}
+            max={WPM_RANGE.max}
+            value={wpmDraft}
+            onChange={(e) => changeWpm(e.target.value)}
+            onBlur={commitWpm}
+            onKeyDown={(e) => e.key === 'Enter' && commitWpm()}
+            className={`w-14 rounded-sm px-1.5 py-0.5 outline-none border text-right ${
+              isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-200 focus:border-red-600' : 'bg-slate-50 border-slate-300 text-slate-800 focus:border-red-600'
+            }`}
+          />
+          WPM
+        </label>
+      </div>
+
+      {/* Bar */}
+      <div className={`relative h-6 rounded-sm overflow-hidden flex ${isDark ? 'bg-zinc-900' : 'bg-slate-100'}`}>
+        {sections.map(section => (
+          <button
+            key={section.index}
+            onClick={() => onSelectSection(section.index)}
+            style={{ width: `${(section.seconds / scale) * 100}%` }}
+            className={`h-full border-r transition-opacity hover:opacity-80 ${isDark ? 'border-zinc-950' : 'border-white'} ${KIND_COLORS[section.kind]} ${
+              section.pace === 'ok' ? '' : 'ring-2 ring-inset ring-amber-400'
+            }`}
+            title={`${section.title || SECTION_LABELS[section.kind]} · ${formatRuntime(section.start)}–${formatRuntime(section.start + section.seconds)} · ${section.words} words`}
+          />
+        ))}
+        {targetSeconds > 0 && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${(targetSeconds / scale) * 100}%` }} title="Target length" />
+        )}
+        {showMidRoll && (
+          <div className="absolute top-0 bottom-0 border-l-2 border-dashed border-yellow-400 pointer-events-none" style={{ left: `${(targetSeconds / 2 / scale) * 100}%` }} title="Mid-roll" />
+        )}
+      </div>
+      {showMidRoll && (
+        <div className={`text-[10px] font-mono ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
+          Dashed line: mid-roll at {formatRuntime(targetSeconds / 2)}
+        </div>
+      )}
+
+      {flagged.length > 0 && (
+        <ul className="space-y-0.5">
+          {flagged.map(section => (
+            <li key={section.index}>
+              <button onClick={() => onSelectSection(section.index)} className="text-[10px] font-mono text-amber-500 hover:underline flex items-center gap-1.5 text-left">
+                <AlertTriangle className="w-3 h-3 flex-shrink-0" /> {describePace(section)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
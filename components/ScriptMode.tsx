@@ -1,17 +1,34 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { FileText, Loader2, Copy, Check, RefreshCw, Radio, Sparkles, Download, Save, Trash2, History, Mic, Image as ImageIcon, ExternalLink, Search, Disc, PlayCircle, FolderOpen, Youtube, ArrowRight, Eye, EyeOff } from 'lucide-react';
-import { compileWebReport } from '../services/gemini';
-import { ScriptParams, SavedScript } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { FileText, Loader2, Copy, Check, RefreshCw, Radio, Sparkles, Save, Trash2, History, Mic, Image as ImageIcon, ExternalLink, Search, Disc, PlayCircle, FolderOpen, Youtube, ArrowRight, Eye, EyeOff, Square, BookOpen, ShieldCheck, AlertTriangle, MonitorPlay, GitCompare, X } from 'lucide-react';
+import { compileWebReport, factCheckScript, rewriteScriptSection } from '../services/gemini';
+import { ScriptParams, SavedScript, ScriptRevision, ScriptSource, FactCheckClaim, ScriptDocument, ScriptSection, SectionAction } from '../types';
 import Markdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { formatTime } from '../utils/helpers';
+import { toScriptSources, mergeScriptSources, withBibliography } from '../utils/sources';
+import { annotateCitationsByText, parseCitationHref } from '../utils/citations';
+import { getScriptSpeakers, splitScriptMarkdown, joinScriptMarkdown, sectionToMarkdown, scriptToMarkdown, replaceSectionTake, revertSectionTake, getNarration, getNarrationFromMarkdown } from '../utils/scriptDocument';
+import { CitationMarker } from './CitationMarker';
+import { ClaimHighlight, VERDICT_STYLES } from './ClaimHighlight';
+import { ScriptSectionView, ACTION_NOTES } from './ScriptSectionView';
+import { RuntimeTimeline } from './RuntimeTimeline';
+import { Teleprompter } from './Teleprompter';
+import { ExportMenu } from './ExportMenu';
+import { ScriptRevisions } from './ScriptRevisions';
+import { StorageUsage } from './StorageUsage';
+import { estimateRuntime, DEFAULT_WPM } from '../utils/runtime';
+import { highlightClaims, parseClaimHref, countVerdicts } from '../utils/factCheck';
+import { getRevisions, getLatestRevision, createSavedScript, appendRevision } from '../utils/scriptRevisions';
+import { idbGetAll, idbPut, idbDelete, migrateFromLocalStorage, describeStorageError, STORES } from '../utils/idb';
 
 interface ScriptModeProps {
   theme: 'dark' | 'light';
 }
 
-const STORAGE_KEY = 'violen_scripts';
+const LEGACY_STORAGE_KEY = 'violen_scripts'; // Archive location before IndexedDB; migrated on load
+const TONES = ['True Crime', 'Investigative', 'Mystery', 'Dark & Gritty', 'Documentary', 'Informative'];
+const TARGET_MINUTES_RANGE = { min: 0.5, max: 180 };
 
 // ----------------------------------------------------------------------
 // COMPONENT: Evidence Image (Polaroid Style)
@@ -74,30 +91,59 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
     topic: '',
     channelName: '',
     wordCount: 600,
-    tone: 'True Crime'
+    tone: 'True Crime',
+    targetMinutes: 4,
+    wordsPerMinute: DEFAULT_WPM
   });
   const [includeConspiracies, setIncludeConspiracies] = useState(false);
-  const [generatedScript, setGeneratedScript] = useState<string>('');
+  const [generatedScript, setGeneratedScript] = useState<string>(''); // Markdown rendering of scriptDoc
+  const [scriptDoc, setScriptDoc] = useState<ScriptDocument | null>(null);
+  const [sources, setSources] = useState<ScriptSource[]>([]);
+  const [factCheck, setFactCheck] = useState<FactCheckClaim[] | null>(null);
+  const [isFactChecking, setIsFactChecking] = useState(false);
+  const [factCheckError, setFactCheckError] = useState<string | null>(null);
+  const factCheckAbortRef = useRef<AbortController | null>(null);
+  const [rewriting, setRewriting] = useState<{ index: number; action: SectionAction } | null>(null);
+  const [sectionError, setSectionError] = useState<string | null>(null);
+  const sectionAbortRef = useRef<AbortController | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [wasStopped, setWasStopped] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
   const [copied, setCopied] = useState(false);
+  const [isTeleprompterOpen, setIsTeleprompterOpen] = useState(false);
   const [savedScripts, setSavedScripts] = useState<SavedScript[]>([]);
+  const [activeScriptId, setActiveScriptId] = useState<string | null>(null); // Archived case the draft belongs to
+  const [isRevisionsOpen, setIsRevisionsOpen] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   
   const isDark = theme === 'dark';
 
+  // Stop any in-flight compile when leaving the page
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      factCheckAbortRef.current?.abort();
+      sectionAbortRef.current?.abort();
+    };
+  }, []);
+
   // Load History
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setSavedScripts(JSON.parse(stored));
-      } catch (e) { console.error("Failed to load history"); }
-    }
+    migrateFromLocalStorage<SavedScript>(LEGACY_STORAGE_KEY, STORES.scripts)
+      .then(() => idbGetAll<SavedScript>(STORES.scripts))
+      .then(scripts => setSavedScripts(scripts.sort((a, b) => b.timestamp - a.timestamp)))
+      .catch(err => setStorageError(`Case archives unavailable: ${err?.message || 'IndexedDB is blocked in this browser.'}`));
   }, []);
 
-  // Parse Suggestions from Script
+  // Suggestions come from the script document; scripts archived before structured output
+  // only have text, so fall back to scraping their "> SUGGESTION:" lines
   useEffect(() => {
+    if (scriptDoc) {
+        setSuggestions(scriptDoc.suggestions);
+        return;
+    }
     if (!generatedScript) {
         setSuggestions([]);
         return;
@@ -112,40 +158,206 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
         }
     });
     setSuggestions(foundSuggestions);
-  }, [generatedScript]);
+  }, [generatedScript, scriptDoc]);
+
+  // Speaker labels to mark with a mic; legacy scripts fall back to guessing
+  const speakers = useMemo(() => scriptDoc ? getScriptSpeakers(scriptDoc) : null, [scriptDoc]);
+  // The field edits a draft so clearing or retyping it doesn't zero the target and switch off pacing flags
+  const [targetMinutesDraft, setTargetMinutesDraft] = useState(String(params.targetMinutes));
+
+  useEffect(() => {
+    setTargetMinutesDraft(String(params.targetMinutes));
+  }, [params.targetMinutes]);
+
+  const changeTargetMinutes = (value: string) => {
+    setTargetMinutesDraft(value);
+    const minutes = parseFloat(value);
+    if (minutes >= TARGET_MINUTES_RANGE.min && minutes <= TARGET_MINUTES_RANGE.max) setParams(prev => ({ ...prev, targetMinutes: minutes }));
+  };
+
+  const commitTargetMinutes = () => {
+    const minutes = parseFloat(targetMinutesDraft);
+    const committed = Number.isNaN(minutes)
+      ? params.targetMinutes
+      : Math.min(TARGET_MINUTES_RANGE.max, Math.max(TARGET_MINUTES_RANGE.min, minutes));
+    setTargetMinutesDraft(String(committed));
+    if (committed !== params.targetMinutes) setParams(prev => ({ ...prev, targetMinutes: committed }));
+  };
+
+  const runtime = useMemo(
+    () => scriptDoc ? estimateRuntime(scriptDoc, params.wordsPerMinute, params.targetMinutes) : null,
+    [scriptDoc, params.wordsPerMinute, params.targetMinutes]
+  );
+
+  const scrollToSection = (index: number) => {
+    document.getElementById(`script-section-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const isSpeakerLabel = (text: string) => speakers
+    ? speakers.has(text.replace(/:$/, '').trim())
+    : text.includes('Narrator') || text.includes('Host') || text.includes(params.channelName);
+
+  const activeScript = savedScripts.find(script => script.id === activeScriptId) || null;
+  const hasUnsavedChanges = !activeScript || getLatestRevision(activeScript).content !== generatedScript;
+
+  // Saving a case that's already archived adds a revision to it instead of a new entry
+  const commitRevision = (revision: ScriptRevision) => {
+    const title = params.topic || 'Untitled Case';
+    const saved = activeScript
+      ? appendRevision(activeScript, revision, title, params.channelName)
+      : createSavedScript(title, params.channelName, revision);
+    // Only shown as saved once the write lands, so a full disk can't fake an archive
+    idbPut(STORES.scripts, saved)
+      .then(() => {
+        setSavedScripts(prev => [saved, ...prev.filter(s => s.id !== saved.id)]);
+        setActiveScriptId(saved.id);
+        setStorageError(null);
+      })
+      .catch(async err => setStorageError(await describeStorageError(err, `Couldn't archive "${title}"`)));
+  };
 
-  const saveScript = () => {
-    if (!generatedScript) return;
-    const newScript: SavedScript = {
+  const saveScript = (note?: string) => {
+    if (!generatedScript || !hasUnsavedChanges) return;
+    commitRevision({
       id: Date.now().toString(),
-      title: params.topic || 'Untitled Case',
-      channel: params.channelName,
       content: generatedScript,
-      timestamp: Date.now()
-    };
-    const updated = [newScript, ...savedScripts];
-    setSavedScripts(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+      timestamp: Date.now(),
+      note: note || undefined,
+      sources,
+      factCheck: factCheck || undefined,
+      document: scriptDoc || undefined
+    });
   };
 
   const deleteScript = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const updated = savedScripts.filter(s => s.id !== id);
-    setSavedScripts(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    // Only dropped from the list once the delete lands, so a failure can't hide a case that's still stored
+    idbDelete(STORES.scripts, id)
+      .then(() => {
+        setSavedScripts(prev => prev.filter(s => s.id !== id));
+        setActiveScriptId(prev => prev === id ? null : prev);
+      })
+      .catch(async err => setStorageError(await describeStorageError(err, "Couldn't delete from the archives")));
+  };
+
+  const showRevision = (revision: ScriptRevision) => {
+    setGeneratedScript(revision.content);
+    setScriptDoc(revision.document || null);
+    cancelRewrite();
+    setSources(revision.sources || []);
+    resetFactCheck(revision.factCheck || null);
   };
 
   const loadScript = (script: SavedScript) => {
     setParams({ ...params, topic: script.title, channelName: script.channel });
-    setGeneratedScript(script.content);
+    showRevision(getLatestRevision(script));
+    setActiveScriptId(script.id);
+  };
+
+  // Restoring is itself a new revision, so nothing in between is lost
+  const restoreRevision = (revision: ScriptRevision) => {
+    if (!activeScript) return;
+    const revisions = getRevisions(activeScript);
+    showRevision(revision);
+    if (revision.content === getLatestRevision(activeScript).content) return;
+    commitRevision({
+      ...revision,
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      note: `Restored #${revisions.findIndex(r => r.id === revision.id) + 1}${revision.note ? ` (${revision.note})` : ''}`
+    });
+  };
+
+  const resetFactCheck = (claims: FactCheckClaim[] | null = null) => {
+    factCheckAbortRef.current?.abort();
+    setFactCheck(claims);
+    setFactCheckError(null);
+  };
+
+  const runFactCheck = async () => {
+    if (!generatedScript || isFactChecking) return;
+    const abort = new AbortController();
+    factCheckAbortRef.current = abort;
+    setIsFactChecking(true);
+    setFactCheckError(null);
+    try {
+      setFactCheck(await factCheckScript(generatedScript, sources, abort.signal));
+    } catch (err: any) {
+      if (!abort.signal.aborted) setFactCheckError(err.message);
+    } finally {
+      if (factCheckAbortRef.current === abort) {
+        factCheckAbortRef.current = null;
+        setIsFactChecking(false);
+      }
+    }
+  };
+
+  const cancelRewrite = () => {
+    sectionAbortRef.current?.abort();
+    sectionAbortRef.current = null;
+    setRewriting(null);
+    setSectionError(null);
+  };
+
+  // Swaps one section's Markdown in place so the other sections keep their citation markers
+  // `markdown` carries the new take's citation markers when it came with research
+  const updateSection = (index: number, section: ScriptSection, markdown: string = sectionToMarkdown(section)) => {
+    if (!scriptDoc) return;
+    const nextDoc = { ...scriptDoc, sections: scriptDoc.sections.map((s, i) => i === index ? section : s) };
+    const parts = splitScriptMarkdown(generatedScript, scriptDoc.sections.length);
+    setScriptDoc(nextDoc);
+    setGeneratedScript(parts
+      ? joinScriptMarkdown(parts.preamble, parts.sections.map((existing, i) => i === index ? markdown : existing))
+      : scriptToMarkdown(nextDoc));
+    // Verdicts quote the old wording, so they no longer match the script
+    resetFactCheck();
+  };
+
+  const rewriteSection = async (index: number, action: SectionAction, tone?: string) => {
+    if (!scriptDoc || rewriting) return;
+    const abort = new AbortController();
+    sectionAbortRef.current = abort;
+    setRewriting({ index, action });
+    setSectionError(null);
+    try {
+      const take = await rewriteScriptSection(scriptDoc, index, action, {
+        channelName: params.channelName,
+        tone: tone || params.tone,
+        signal: abort.signal
+      });
+      const section = replaceSectionTake(scriptDoc.sections[index], take, action === 'tone' ? `${tone} tone` : ACTION_NOTES[action]);
+      // New research is cited after the script's existing sources so earlier markers keep their numbers
+      const markdown = annotateCitationsByText(sectionToMarkdown(section), take.groundingChunks, take.groundingSupports, sources.map(source => source.uri));
+      setSources(mergeScriptSources(sources, take.groundingChunks));
+      updateSection(index, section, markdown);
+    } catch (err: any) {
+      if (!abort.signal.aborted) setSectionError(err.message);
+    } finally {
+      if (sectionAbortRef.current === abort) {
+        sectionAbortRef.current = null;
+        setRewriting(null);
+      }
+    }
+  };
+
+  const focusClaim = (claim: FactCheckClaim) => {
+    document.getElementById(`fact-check-${claim.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
   };
 
   const handleGenerate = async (overrideTopic?: string) => {
     const topicToUse = overrideTopic || params.topic;
-    if (!topicToUse || !params.channelName) return;
+    if (!topicToUse || !params.channelName || isGenerating) return;
     
+    const abort = new AbortController();
+    abortRef.current = abort;
     setIsGenerating(true);
+    setWasStopped(false);
     setGeneratedScript('');
+    setScriptDoc(null);
+    setActiveScriptId(null);
+    cancelRewrite();
+    setSources([]);
+    resetFactCheck();
     setSuggestions([]);
     setCopied(false);
     
@@ -154,34 +366,101 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
     }
 
     try {
-      const response = await compileWebReport(topicToUse, params.channelName, params.wordCount, params.tone, includeConspiracies);
+      const response = await compileWebReport(topicToUse, params.channelName, params.wordCount, params.tone, includeConspiracies, {
+        signal: abort.signal,
+        onChunk: setGeneratedScript
+      });
+      setWasStopped(!!response.stopped);
+      setSources(toScriptSources(response.groundingChunks));
       // Remove the raw suggestion lines from the visible script to render them cleanly as buttons instead
-      const cleanText = response.text.replace(/> SUGGESTION:.*\n?/g, '');
-      setGeneratedScript(cleanText);
-      setGeneratedScript(response.text); // Actually, keep raw text so suggestions are available to parser, Markdown will hide them if formatted as comments or blockquotes, but let's just keep them for now.
+      setScriptDoc(response.document);
+      setGeneratedScript(response.document ? annotateCitationsByText(response.text, response.groundingChunks, response.groundingSupports) : response.text);
     } catch (error) { console.error(error); } 
-    finally { setIsGenerating(false); }
+    finally {
+      abortRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  // Keeps the partial script on screen
+  const stopGenerating = () => {
+    abortRef.current?.abort();
   };
 
   const copyToClipboard = () => {
-    navigator.clipboard.writeText(generatedScript);
+    navigator.clipboard.writeText(withBibliography(generatedScript, sources));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const downloadScript = () => {
-    if (!generatedScript) return;
-    const element = document.createElement("a");
-    const file = new Blob([generatedScript], {type: 'text/markdown'});
-    element.href = URL.createObjectURL(file);
-    element.download = `${(params.topic || 'case').replace(/\s+/g, '_')}.md`;
-    document.body.appendChild(element);
-    element.click();
-    document.body.removeChild(element);
-  };
+  const renderMarkdown = (markdown: string) => (
+    <Markdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+          // Custom Image Handler
+          img: (props: any) => <ScriptImage {...props} theme={theme} />,
+        
+          // Narrator Icon Handling for Strong tags
+          strong: ({children}: any) => {
+              const text = String(children);
+              const isSpeaker = isSpeakerLabel(text);
+              return (
+                  <strong className={`font-bold tracking-tight ${isDark ? 'text-zinc-100' : 'text-slate-900'} ${isSpeaker ? 'text-red-500' : ''}`}>
+                      {isSpeaker && <Mic className="inline w-3.5 h-3.5 mr-2 relative -top-0.5" />}
+                      {children}
+                  </strong>
+              );
+          },
+
+          p: ({children}) => <p className={`mb-6 leading-8 text-[15px] ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{children}</p>,
+          h1: ({children}) => <h1 className={`text-2xl font-black uppercase tracking-tight mb-8 pb-4 border-b-2 ${isDark ? 'text-white border-red-900/50' : 'text-slate-900 border-red-500/30'}`}>{children}</h1>,
+          h2: ({children}) => <h2 className={`text-lg font-bold uppercase tracking-widest mb-4 mt-10 flex items-center gap-3 ${isDark ? 'text-red-500' : 'text-red-700'}`}><span className="w-4 h-0.5 bg-current"></span>{children}</h2>,
+          h3: ({children}) => <h3 className={`text-base font-bold mb-3 mt-6 ${isDark ? 'text-zinc-100' : 'text-slate-800'}`}>{children}</h3>,
+          ul: ({children}) => <ul className={`list-none pl-0 mb-6 space-y-3 ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{children}</ul>,
+          li: ({children}) => <li className="flex gap-3"><span className="text-red-600 mt-1.5 text-[10px]">●</span><span>{children}</span></li>,
+          blockquote: ({children}) => <blockquote className={`border-l-2 pl-6 py-2 italic my-8 ${isDark ? 'border-red-600 bg-red-900/5 text-zinc-400' : 'border-red-600 bg-red-50 text-slate-600'}`}>"{children}"</blockquote>,
+          a: ({href, children}) => {
+            const citation = parseCitationHref(href);
+            if (citation !== null) {
+                return <CitationMarker index={citation} source={sources[citation - 1]} accent="text-red-500" theme={theme} />;
+            }
+            const claimId = parseClaimHref(href);
+            if (claimId !== null) {
+                return <ClaimHighlight claim={factCheck?.find(c => c.id === claimId)} theme={theme} onSelect={focusClaim}>{children}</ClaimHighlight>;
+            }
+            return <a href={href} target="_blank" rel="noopener noreferrer" className="text-red-500 hover:text-red-400 underline decoration-red-900/50 underline-offset-4">{children}</a>;
+          }
+      }}
+    >
+      {markdown}
+    </Markdown>
+  );
+
+  const displayedScript = isGenerating ? generatedScript : highlightClaims(generatedScript, factCheck || []);
+  // Sections get their own rewrite tools once the script is finished and still lines up with its document
+  const scriptParts = scriptDoc && !isGenerating ? splitScriptMarkdown(displayedScript, scriptDoc.sections.length) : null;
 
   return (
     <div className={`flex flex-col h-full overflow-hidden ${isDark ? 'bg-[#09090b]' : 'bg-slate-100'}`}>
+      {isRevisionsOpen && activeScript && (
+        <ScriptRevisions
+          script={activeScript}
+          hasUnsavedChanges={hasUnsavedChanges}
+          onSave={saveScript}
+          onRestore={restoreRevision}
+          onClose={() => setIsRevisionsOpen(false)}
+          theme={theme}
+        />
+      )}
+
+      {isTeleprompterOpen && (
+        <Teleprompter
+          title={scriptDoc?.title || params.topic}
+          lines={scriptDoc ? getNarration(scriptDoc) : getNarrationFromMarkdown(generatedScript)}
+          wordsPerMinute={params.wordsPerMinute}
+          onClose={() => setIsTeleprompterOpen(false)}
+        />
+      )}
       
       {/* Header */}
       <header className={`h-16 flex items-center justify-between px-6 sticky top-0 z-10 border-b metallic-surface ${isDark ? 'border-zinc-800' : 'border-slate-300 bg-white'}`}>
@@ -255,6 +534,22 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
                   />
                 </div>
                 <div className="space-y-1.5">
+                  <label className={`text-[10px] font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>Target Length (Min)</label>
+                  <input
+                    type="number"
+                    min={TARGET_MINUTES_RANGE.min}
+                    max={TARGET_MINUTES_RANGE.max}
+                    step={0.5}
+                    value={targetMinutesDraft}
+                    onChange={(e) => changeTargetMinutes(e.target.value)}
+                    onBlur={commitTargetMinutes}
+                    onKeyDown={(e) => e.key === 'Enter' && commitTargetMinutes()}
+                    className={`w-full rounded-sm px-4 py-3 text-xs font-mono outline-none transition-all border ${
+                        isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-100 focus:border-red-600' : 'bg-slate-50 border-slate-300 text-slate-900 focus:border-red-600'
+                    }`}
+                  />
+                </div>
+                <div className="space-y-1.5 col-span-2">
                   <label className={`text-[10px] font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>Narrative Tone</label>
                   <select
                     value={params.tone}
@@ -263,12 +558,7 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
                         isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-100 focus:border-red-600' : 'bg-slate-50 border-slate-300 text-slate-900 focus:border-red-600'
                     }`}
                   >
-                    <option>True Crime</option>
-                    <option>Investigative</option>
-                    <option>Mystery</option>
-                    <option>Dark & Gritty</option>
-                    <option>Documentary</option>
-                    <option>Informative</option>
+                    {TONES.map(tone => <option key={tone}>{tone}</option>)}
                   </select>
                 </div>
               </div>
@@ -291,13 +581,24 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
                   </div>
               </button>
 
-              <button
-                onClick={() => handleGenerate()}
-                disabled={isGenerating || !params.topic || !params.channelName}
-                className="w-full mt-6 bg-red-700 hover:bg-red-600 text-white font-bold py-4 rounded-sm shadow-xl shadow-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center text-xs tracking-widest uppercase transform active:scale-95 border border-red-500"
-              >
-                {isGenerating ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Investigating...</> : <><Disc className="w-4 h-4 mr-2 animate-spin-slow" /> Compile Script</>}
-              </button>
+              {isGenerating ? (
+                <button
+                  onClick={stopGenerating}
+                  className={`w-full mt-6 font-bold py-4 rounded-sm transition-all flex items-center justify-center text-xs tracking-widest uppercase transform active:scale-95 border ${
+                    isDark ? 'bg-zinc-900 border-zinc-700 text-zinc-200 hover:border-red-600' : 'bg-white border-slate-300 text-slate-700 hover:border-red-600'
+                  }`}
+                >
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Investigating... <Square className="w-3 h-3 ml-3 mr-1.5 fill-current text-red-600" /> Stop
+                </button>
+              ) : (
+                <button
+                  onClick={() => handleGenerate()}
+                  disabled={!params.topic || !params.channelName}
+                  className="w-full mt-6 bg-red-700 hover:bg-red-600 text-white font-bold py-4 rounded-sm shadow-xl shadow-red-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center text-xs tracking-widest uppercase transform active:scale-95 border border-red-500"
+                >
+                  <Disc className="w-4 h-4 mr-2 animate-spin-slow" /> Compile Script
+                </button>
+              )}
             </div>
 
             {/* Archives */}
@@ -305,12 +606,15 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
                 <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-4 flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
                     <History className="w-3 h-3" /> Case Archives
                 </h4>
+                <div className="mb-4">
+                    <StorageUsage refreshKey={savedScripts} theme={theme} />
+                </div>
                 <div className="space-y-1">
                     {savedScripts.map(script => (
                         <div 
                             key={script.id}
                             onClick={() => loadScript(script)}
-                            className={`p-3 rounded-sm border-l-2 cursor-pointer transition-all group relative flex justify-between items-center ${
+                            className={`p-3 rounded-sm border-l-2 cursor-pointer transition-all group relative flex justify-between items-center ${script.id === activeScriptId ? '!border-l-red-600' : ''} ${
                                 isDark 
                                 ? 'bg-[#121214] border-l-zinc-700 hover:border-l-red-600 hover:bg-zinc-800/50' 
                                 : 'bg-slate-50 border-l-slate-300 hover:border-l-red-600 hover:bg-white'
@@ -318,7 +622,7 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
                         >
                             <div className="min-w-0 pr-4">
                                 <div className={`font-bold text-xs truncate ${isDark ? 'text-zinc-300' : 'text-slate-800'}`}>{script.title}</div>
-                                <div className={`text-[10px] mt-0.5 ${isDark ? 'text-zinc-600' : 'text-slate-500'}`}>{formatTime(script.timestamp)}</div>
+                                <div className={`text-[10px] mt-0.5 ${isDark ? 'text-zinc-600' : 'text-slate-500'}`}>{formatTime(script.timestamp)}{getRevisions(script).length > 1 && ` · ${getRevisions(script).length} revisions`}</div>
                             </div>
                             <button 
                                 onClick={(e) => deleteScript(script.id, e)}
@@ -339,14 +643,31 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
           <div className={`h-14 px-6 border-b flex justify-between items-center metallic-surface ${isDark ? 'border-zinc-800' : 'border-slate-300 bg-white'}`}>
             <span className={`text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}>
                 <FileText className="w-4 h-4" /> Script Preview
+                {isGenerating && generatedScript && <span className="text-red-500 animate-pulse">● Live</span>}
+                {!isGenerating && wasStopped && <span className={isDark ? 'text-zinc-600' : 'text-slate-400'}>• Stopped early (partial draft)</span>}
             </span>
-            {generatedScript && (
+            {generatedScript && !isGenerating && (
               <div className="flex gap-2">
-                <button onClick={saveScript} className={`p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title="Archive Case">
+                <button onClick={() => saveScript()} className={`relative p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title={activeScript ? 'Save Revision' : 'Archive Case'}>
                   <Save className="w-4 h-4" />
+                  {activeScript && hasUnsavedChanges && <span className="absolute top-1 right-1 w-1.5 h-1.5 rounded-full bg-red-500"></span>}
+                </button>
+                {activeScript && (
+                  <button onClick={() => setIsRevisionsOpen(true)} className={`flex items-center gap-1.5 p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title="Revisions">
+                    <GitCompare className="w-4 h-4" />
+                    <span className="text-[10px] font-mono">{getRevisions(activeScript).length}</span>
+                  </button>
+                )}
+                <ExportMenu
+                  fileName={(params.topic || 'case').replace(/\s+/g, '_')}
+                  getInput={() => ({ title: params.topic, channel: params.channelName, markdown: generatedScript, document: scriptDoc, sources })}
+                  theme={theme}
+                />
+                <button onClick={() => setIsTeleprompterOpen(true)} className={`p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title="Teleprompter">
+                  <MonitorPlay className="w-4 h-4" />
                 </button>
-                <button onClick={downloadScript} className={`p-2 rounded-sm transition-colors border ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title="Export Markdown">
-                  <Download className="w-4 h-4" />
+                <button onClick={runFactCheck} disabled={isFactChecking} className={`flex items-center gap-2 px-3 py-1.5 rounded-sm text-xs font-bold uppercase tracking-wider transition-colors border disabled:opacity-60 ${isDark ? 'bg-zinc-900 border-zinc-700 hover:bg-zinc-800 text-zinc-300' : 'bg-white border-slate-300 hover:bg-slate-100 text-slate-700'}`} title="Check every factual claim against the web">
+                  {isFactChecking ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5" />} {factCheck ? 'Re-Check' : 'Fact-Check'}
                 </button>
                  <div className="w-px h-6 bg-zinc-700/20 mx-1"></div>
                 <button onClick={copyToClipboard} className={`flex items-center space-x-2 px-4 py-1.5 rounded-sm text-xs font-bold uppercase tracking-wider transition-colors border ${copied ? 'bg-green-900/20 border-green-900 text-green-500' : isDark ? 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800' : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100'}`}>
@@ -356,80 +677,183 @@ export const ScriptMode: React.FC<ScriptModeProps> = ({ theme }) => {
             )}
           </div>
 
-          <div className="flex-1 overflow-y-auto custom-scrollbar" ref={scrollRef}>
-            {generatedScript ? (
-              <div className="max-w-4xl mx-auto p-8 lg:p-12 animate-fade-in pb-32">
-                 <div className={`markdown-body font-sans`}>
-                     <Markdown
-                        remarkPlugins={[remarkGfm]}
-                        components={{
-                            // Custom Image Handler
-                            img: (props: any) => <ScriptImage {...props} theme={theme} />,
-                            
-                            // Narrator Icon Handling for Strong tags
-                            strong: ({children}: any) => {
-                                const text = String(children);
-                                const isSpeaker = text.includes('Narrator') || text.includes('Host') || text.includes(params.channelName);
-                                return (
-                                    <strong className={`font-bold tracking-tight ${isDark ? 'text-zinc-100' : 'text-slate-900'} ${isSpeaker ? 'text-red-500' : ''}`}>
-                                        {isSpeaker && <Mic className="inline w-3.5 h-3.5 mr-2 relative -top-0.5" />}
-                                        {children}
-                                    </strong>
-                                );
-                            },
-
-                            p: ({children}) => <p className={`mb-6 leading-8 text-[15px] ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{children}</p>,
-                            h1: ({children}) => <h1 className={`text-2xl font-black uppercase tracking-tight mb-8 pb-4 border-b-2 ${isDark ? 'text-white border-red-900/50' : 'text-slate-900 border-red-500/30'}`}>{children}</h1>,
-                            h2: ({children}) => <h2 className={`text-lg font-bold uppercase tracking-widest mb-4 mt-10 flex items-center gap-3 ${isDark ? 'text-red-500' : 'text-red-700'}`}><span className="w-4 h-0.5 bg-current"></span>{children}</h2>,
-                            h3: ({children}) => <h3 className={`text-base font-bold mb-3 mt-6 ${isDark ? 'text-zinc-100' : 'text-slate-800'}`}>{children}</h3>,
-                            ul: ({children}) => <ul className={`list-none pl-0 mb-6 space-y-3 ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{children}</ul>,
-                            li: ({children}) => <li className="flex gap-3"><span className="text-red-600 mt-1.5 text-[10px]">●</span><span>{children}</span></li>,
-                            blockquote: ({children}) => <blockquote className={`border-l-2 pl-6 py-2 italic my-8 ${isDark ? 'border-red-600 bg-red-900/5 text-zinc-400' : 'border-red-600 bg-red-50 text-slate-600'}`}>"{children}"</blockquote>,
-                            a: ({href, children}) => <a href={href} target="_blank" rel="noopener noreferrer" className="text-red-500 hover:text-red-400 underline decoration-red-900/50 underline-offset-4">{children}</a>
-                        }}
-                     >
-                         {generatedScript}
-                     </Markdown>
-                 </div>
-
-                 {/* Next Investigations Section */}
-                 {suggestions.length > 0 && (
-                     <div className="mt-16 pt-8 border-t border-dashed border-zinc-700">
-                         <h4 className={`text-xs font-bold uppercase tracking-widest mb-6 flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
-                             <Search className="w-4 h-4" /> Next Investigations
-                         </h4>
-                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                             {suggestions.map((suggestion, idx) => (
-                                 <button 
-                                    key={idx}
-                                    onClick={() => handleGenerate(suggestion)}
-                                    className={`group text-left p-4 rounded-sm border transition-all relative overflow-hidden ${
-                                        isDark 
-                                        ? 'bg-[#0c0c0e] border-zinc-800 hover:border-red-600 hover:bg-zinc-900' 
-                                        : 'bg-white border-slate-200 hover:border-red-600 hover:bg-slate-50'
-                                    }`}
-                                 >
-                                     <div className={`font-bold text-sm mb-2 group-hover:text-red-500 transition-colors ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>
-                                         {suggestion}
-                                     </div>
-                                     <div className={`text-[10px] flex items-center gap-1 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
-                                         <span>INVESTIGATE NOW</span>
-                                         <ArrowRight className="w-3 h-3 transform group-hover:translate-x-1 transition-transform" />
-                                     </div>
-                                     <div className="absolute bottom-0 left-0 h-0.5 w-0 bg-red-600 group-hover:w-full transition-all duration-500"></div>
-                                 </button>
-                             ))}
-                         </div>
-                     </div>
-                 )}
-              </div>
-            ) : (
-              <div className="h-full flex flex-col items-center justify-center opacity-40">
-                <div className={`p-8 rounded-full mb-6 border ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-slate-100 border-slate-300'}`}>
-                    <FileText className={`w-12 h-12 stroke-1 ${isDark ? 'text-zinc-700' : 'text-slate-400'}`} />
+          {storageError && (
+            <div className="px-6 py-2 flex items-center gap-2 text-xs bg-red-500/10 text-red-500 border-b border-red-500/20">
+              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="flex-1">{storageError}</span>
+              <button onClick={() => setStorageError(null)} title="Dismiss"><X className="w-3.5 h-3.5" /></button>
+            </div>
+          )}
+
+          {runtime && !isGenerating && (
+            <RuntimeTimeline
+              runtime={runtime}
+              wordsPerMinute={params.wordsPerMinute}
+              onWordsPerMinuteChange={(wordsPerMinute) => setParams({ ...params, wordsPerMinute })}
+              onSelectSection={scrollToSection}
+              theme={theme}
+            />
+          )}
+
+          <div className="flex-1 flex min-h-0">
+            <div className="flex-1 overflow-y-auto custom-scrollbar" ref={scrollRef}>
+              {generatedScript ? (
+                <div className="max-w-4xl mx-auto p-8 lg:p-12 animate-fade-in pb-32">
+                   <div className={`markdown-body font-sans`}>
+                       {sectionError && (
+                           <div className="mb-6 p-3 rounded-sm border border-red-900/50 bg-red-900/10 text-xs text-red-500 flex items-center gap-2">
+                               <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" /> {sectionError}
+                           </div>
+                       )}
+                       {scriptParts ? (
+                           <>
+                               {scriptParts.preamble && renderMarkdown(scriptParts.preamble)}
+                               {scriptDoc!.sections.map((section, idx) => (
+                                   <ScriptSectionView
+                                       key={idx}
+                                       id={`script-section-${idx}`}
+                                       section={section}
+                                       renderMarkdown={renderMarkdown}
+                                       tones={TONES}
+                                       busyAction={rewriting?.index === idx ? rewriting.action : null}
+                                       disabled={rewriting !== null}
+                                       onAction={(action, tone) => rewriteSection(idx, action, tone)}
+                                       onRevert={(versionIdx) => updateSection(idx, revertSectionTake(section, versionIdx))}
+                                       theme={theme}
+                                   >
+                                       {renderMarkdown(scriptParts.sections[idx])}
+                                   </ScriptSectionView>
+                               ))}
+                           </>
+                       ) : renderMarkdown(displayedScript)}
+                   </div>
+
+                   {/* Next Investigations Section */}
+                   {suggestions.length > 0 && (
+                       <div className="mt-16 pt-8 border-t border-dashed border-zinc-700">
+                           <h4 className={`text-xs font-bold uppercase tracking-widest mb-6 flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+                               <Search className="w-4 h-4" /> Next Investigations
+                           </h4>
+                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                               {suggestions.map((suggestion, idx) => (
+                                   <button 
+                                      key={idx}
+                                      onClick={() => handleGenerate(suggestion)}
+                                      className={`group text-left p-4 rounded-sm border transition-all relative overflow-hidden ${
+                                          isDark 
+                                          ? 'bg-[#0c0c0e] border-zinc-800 hover:border-red-600 hover:bg-zinc-900' 
+                                          : 'bg-white border-slate-200 hover:border-red-600 hover:bg-slate-50'
+                                      }`}
+                                   >
+                                       <div className={`font-bold text-sm mb-2 group-hover:text-red-500 transition-colors ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>
+                                           {suggestion}
+                                       </div>
+                                       <div className={`text-[10px] flex items-center gap-1 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
+                                           <span>INVESTIGATE NOW</span>
+                                           <ArrowRight className="w-3 h-3 transform group-hover:translate-x-1 transition-transform" />
+                                       </div>
+                                       <div className="absolute bottom-0 left-0 h-0.5 w-0 bg-red-600 group-hover:w-full transition-all duration-500"></div>
+                                   </button>
+                               ))}
+                           </div>
+                       </div>
+                   )}
                 </div>
-                <p className={`font-mono text-xs uppercase tracking-widest ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>Waiting for case file...</p>
-              </div>
+              ) : (
+                <div className="h-full flex flex-col items-center justify-center opacity-40">
+                  <div className={`p-8 rounded-full mb-6 border ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-slate-100 border-slate-300'}`}>
+                      <FileText className={`w-12 h-12 stroke-1 ${isDark ? 'text-zinc-700' : 'text-slate-400'}`} />
+                  </div>
+                  <p className={`font-mono text-xs uppercase tracking-widest ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>Waiting for case file...</p>
+                </div>
+              )}
+            </div>
+
+            {/* Fact Check & Sources Panel */}
+            {(sources.length > 0 || factCheck || isFactChecking || factCheckError) && (
+              <aside className={`w-72 flex-shrink-0 border-l overflow-y-auto custom-scrollbar animate-fade-in ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-300'}`}>
+                {(factCheck || isFactChecking || factCheckError) && (
+                <div className={`p-5 border-b ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+                  <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-4 flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
+                    <ShieldCheck className="w-3 h-3" /> Fact Check
+                  </h4>
+                  {isFactChecking && (
+                    <div className={`text-xs flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+                      <Loader2 className="w-3.5 h-3.5 animate-spin text-red-600" /> Verifying claims against the web...
+                    </div>
+                  )}
+                  {factCheckError && (
+                    <div className="text-xs text-red-500 flex items-start gap-2">
+                      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" /> {factCheckError}
+                    </div>
+                  )}
+                  {factCheck && !isFactChecking && (
+                    <>
+                      <div className="flex gap-3 mb-4 text-[10px] font-bold uppercase tracking-wider">
+                        {Object.entries(countVerdicts(factCheck)).map(([verdict, count]) => (
+                          <span key={verdict} className={VERDICT_STYLES[verdict as keyof typeof VERDICT_STYLES].text}>{count} {verdict}</span>
+                        ))}
+                      </div>
+                      {factCheck.length === 0 && <div className="text-[10px] opacity-40 italic">No checkable claims found.</div>}
+                      <ol className="space-y-2">
+                        {factCheck.map(claim => {
+                          const style = VERDICT_STYLES[claim.verdict];
+                          const Icon = style.icon;
+                          return (
+                            <li
+                              key={claim.id}
+                              id={`fact-check-${claim.id}`}
+                              className={`p-2.5 rounded-sm border-l-2 text-xs ${isDark ? 'bg-[#121214] text-zinc-300' : 'bg-slate-50 text-slate-700'} ${style.border}`}
+                            >
+                              <div className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider mb-1 ${style.text}`}>
+                                <Icon className="w-3.5 h-3.5" /> {style.label}
+                                <span className={`ml-auto font-mono font-normal normal-case ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>{claim.kind}</span>
+                              </div>
+                              <div className="font-semibold leading-snug">{claim.claim}</div>
+                              {claim.explanation && <div className={`mt-1 leading-snug ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>{claim.explanation}</div>}
+                              {claim.sources.length > 0 && (
+                                <div className="mt-1.5 flex flex-wrap gap-x-2 gap-y-0.5">
+                                  {claim.sources.slice(0, 3).map(source => (
+                                    <a key={source.uri} href={source.uri} target="_blank" rel="noopener noreferrer" className="text-[10px] text-red-500 hover:underline truncate max-w-full">
+                                      {source.title || 'Web Source'}
+                                    </a>
+                                  ))}
+                                </div>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ol>
+                    </>
+                  )}
+                </div>
+                )}
+                {sources.length > 0 && (
+                <div className="p-5">
+                  <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-4 flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
+                    <BookOpen className="w-3 h-3" /> Sources ({sources.length})
+                  </h4>
+                  <ol className="space-y-2">
+                    {sources.map((source, idx) => (
+                      <li key={source.uri}>
+                        <a
+                          href={source.uri} target="_blank" rel="noopener noreferrer"
+                          className={`flex gap-2 p-2 rounded-sm border-l-2 text-xs transition-all group ${
+                            isDark
+                            ? 'bg-[#121214] border-l-zinc-700 hover:border-l-red-600 text-zinc-300'
+                            : 'bg-slate-50 border-l-slate-300 hover:border-l-red-600 text-slate-700'
+                          }`}
+                        >
+                          <span className="font-mono text-red-600 flex-shrink-0">[{idx + 1}]</span>
+                          <span className="min-w-0 flex-1 break-words group-hover:text-red-500 transition-colors">{source.title || 'Web Source'}</span>
+                          <ExternalLink className="w-3 h-3 flex-shrink-0 mt-0.5 opacity-50" />
+                        </a>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+                )}
+              </aside>
             )}
           </div>
         </div>
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, GitCompare, RotateCcw, Save } from 'lucide-react';
+import { SavedScript, ScriptRevision } from '../types';
+import { getRevisions } from '../utils/scriptRevisions';
+import { DiffOp, diffLines, diffWords, toSideBySide, countChanges } from '../utils/diff';
+import { plainCitations } from '../utils/citations';
+import { formatTime } from '../utils/helpers';
+
+interface ScriptRevisionsProps {
+  script: SavedScript;
+  hasUnsavedChanges: boolean;
+  onSave: (note: string) => void;
+  onRestore: (revision: ScriptRevision) => void;
+  onClose: () => void;
+  theme: 'dark' | 'light';
+}
+
+const formatRevisionDate = (timestamp: number) =>
+  `${new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })} ${formatTime(timestamp)}`;
+
+// ----------------------------------------------------------------------
+// COMPONENT: Diff Cell (one side of a side-by-side row, with word-level marks)
+// ----------------------------------------------------------------------
+const DiffCell: React.FC<{ op?: DiffOp; counterpart?: DiffOp; side: 'left' | 'right'; isDark: boolean }> = ({ op, counterpart, side, isDark }) => {
+  if (!op) return <div className={isDark ? 'bg-zinc-900/40' : 'bg-slate-100/60'}></div>;
+  const changedType = side === 'left' ? 'removed' : 'added';
+  const rowClass = op.type === 'equal'
+    ? isDark ? 'text-zinc-400' : 'text-slate-600'
+    : side === 'left' ? 'bg-red-500/10 text-red-400' : 'bg-emerald-500/10 text-emerald-500';
+
+  // An edited line paired with its old wording: mark just the words that changed
+  const words = op.type !== 'equal' && counterpart && counterpart.type !== 'equal'
+    ? diffWords(side === 'left' ? op.text : counterpart.text, side === 'left' ? counterpart.text : op.text)
+        .filter(word => word.type === 'equal' || word.type === changedType)
+    : null;
+
+  return (
+    <div className={`px-3 py-1 whitespace-pre-wrap break-words ${rowClass}`}>
+      {words
+        ? words.map((word, idx) => word.type === 'equal'
+            ? <span key={idx}>{word.text}</span>
+            : <mark key={idx} className={`text-inherit rounded-sm ${side === 'left' ? 'bg-red-500/25 line-through' : 'bg-emerald-500/25'}`}>{word.text}</mark>)
+        : op.text}
+    </div>
+  );
+};
+
+// ----------------------------------------------------------------------
+// COMPONENT: Script Revisions (saved revisions, side-by-side diff and restore)
+// ----------------------------------------------------------------------
+export const ScriptRevisions: React.FC<ScriptRevisionsProps> = ({ script, hasUnsavedChanges, onSave, onRestore, onClose, theme }) => {
+  const isDark = theme === 'dark';
+  const revisions = getRevisions(script);
+  const [note, setNote] = useState('');
+  // Defaults to the latest change: the previous revision against the newest
+  const [baseId, setBaseId] = useState(revisions[Math.max(0, revisions.length - 2)].id);
+  const [targetId, setTargetId] = useState(revisions[revisions.length - 1].id);
+
+  // Jump to the newest change whenever a revision is saved or restored
+  useEffect(() => {
+    setBaseId(revisions[Math.max(0, revisions.length - 2)].id);
+    setTargetId(revisions[revisions.length - 1].id);
+  }, [revisions.length]);
+
+  const base = revisions.find(revision => revision.id === baseId) || revisions[0];
+  const target = revisions.find(revision => revision.id === targetId) || revisions[revisions.length - 1];
+  const revisionNumber = (revision: ScriptRevision) => revisions.indexOf(revision) + 1;
+
+  const { rows, changes } = useMemo(() => {
+    const ops = diffLines(plainCitations(base.content), plainCitations(target.content));
+    return { rows: toSideBySide(ops), changes: countChanges(ops) };
+  }, [base, target]);
+
+  const save = () => {
+    onSave(note.trim());
+    setNote('');
+  };
+
+  const pickerClass = (active: boolean, color: string) => `w-6 h-6 rounded-sm border text-[10px] font-bold transition-colors ${
+    active ? color : isDark ? 'border-zinc-700 text-zinc-500 hover:border-zinc-500' : 'border-slate-300 text-slate-400 hover:border-slate-400'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-6xl h-[85vh] flex flex-col rounded-sm border shadow-2xl animate-fade-in ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200'}`}
+      >
+        <div className={`h-14 px-5 border-b flex items-center justify-between flex-shrink-0 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+          <h3 className={`text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}>
+            <GitCompare className="w-4 h-4" /> Revisions · <span className={`normal-case tracking-normal ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>{script.title}</span>
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-sm text-zinc-500 hover:text-red-500" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Revision List */}
+          <div className={`w-72 border-r flex flex-col flex-shrink-0 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+            <div className={`p-4 border-b space-y-2 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+              <input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && hasUnsavedChanges && save()}
+                placeholder="Note (e.g. tightened the hook)"
+                className={`w-full rounded-sm px-3 py-2 text-xs outline-none border transition-all ${
+                  isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-200 focus:border-red-600' : 'bg-slate-50 border-slate-300 text-slate-800 focus:border-red-600'
+                }`}
+              />
+              <button
+                onClick={save}
+                disabled={!hasUnsavedChanges}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-sm bg-red-700 hover:bg-red-600 text-white text-[10px] font-bold uppercase tracking-wider disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={hasUnsavedChanges ? 'Save the current draft as a new revision' : 'The draft matches the latest revision'}
+              >
+                <Save className="w-3.5 h-3.5" /> Save Revision
+              </button>
+            </div>
+
+            <div className={`px-4 pt-3 pb-1 flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
+              <span className="w-6 text-center">A</span><span className="w-6 text-center">B</span> Compare
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-2 pb-4 space-y-1">
+              {[...revisions].reverse().map(revision => (
+                <div key={revision.id} className={`group flex items-center gap-2 px-2 py-2 rounded-sm ${isDark ? 'hover:bg-zinc-900' : 'hover:bg-slate-50'}`}>
+                  <button onClick={() => setBaseId(revision.id)} className={pickerClass(revision.id === base.id, 'border-red-600 bg-red-900/20 text-red-500')} title="Compare from this revision">A</button>
+                  <button onClick={() => setTargetId(revision.id)} className={pickerClass(revision.id === target.id, 'border-emerald-600 bg-emerald-900/20 text-emerald-500')} title="Compare to this revision">B</button>
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-xs font-bold truncate ${isDark ? 'text-zinc-300' : 'text-slate-800'}`}>
+                      #{revisionNumber(revision)} {revision.note || (revision === revisions[0] ? 'First save' : 'Saved')}
+                    </div>
+                    <div className={`text-[10px] font-mono ${isDark ? 'text-zinc-600' : 'text-slate-500'}`}>{formatRevisionDate(revision.timestamp)}</div>
+                  </div>
+                  <button
+                    onClick={() => onRestore(revision)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-red-500"
+                    title="Restore this revision"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Side-by-side Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className={`grid grid-cols-2 border-b text-[10px] font-bold uppercase tracking-wider flex-shrink-0 ${isDark ? 'border-zinc-800 text-zinc-500' : 'border-slate-200 text-slate-500'}`}>
+              <div className="px-3 py-2 flex items-center justify-between">
+                <span className="text-red-500">A · #{revisionNumber(base)} {formatRevisionDate(base.timestamp)}</span>
+                {base !== revisions[revisions.length - 1] && (
+                  <button onClick={() => onRestore(base)} className="flex items-center gap-1 hover:text-red-500 transition-colors">
+                    <RotateCcw className="w-3 h-3" /> Restore
+                  </button>
+                )}
+              </div>
+              <div className={`px-3 py-2 border-l flex items-center justify-between ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+                <span className="text-emerald-500">B · #{revisionNumber(target)} {formatRevisionDate(target.timestamp)}</span>
+                <span className="font-mono normal-case">
+                  <span className="text-emerald-500">+{changes.added}</span> <span className="text-red-500">-{changes.removed}</span>
+                </span>
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar text-xs leading-relaxed font-mono">
+              {base === target && (
+                <div className={`px-4 py-2 text-[10px] italic ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>Pick two different revisions to see what changed.</div>
+              )}
+              {rows.map((row, idx) => (
+                <div key={idx} className={`grid grid-cols-2 border-b ${isDark ? 'border-zinc-900' : 'border-slate-100'}`}>
+                  <DiffCell op={row.left} counterpart={row.right} side="left" isDark={isDark} />
+                  <div className={`border-l ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+                    <DiffCell op={row.right} counterpart={row.left} side="right" isDark={isDark} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { RefreshCw, Maximize2, Minimize2, History, Undo2, Loader2, X } from 'lucide-react';
+import { ScriptSection, SectionAction } from '../types';
+import { SECTION_LABELS, sectionToMarkdown } from '../utils/scriptDocument';
+import { formatTime } from '../utils/helpers';
+
+interface ScriptSectionViewProps {
+  id?: string;
+  section: ScriptSection;
+  children: React.ReactNode; // The section as rendered in the script
+  renderMarkdown: (markdown: string) => React.ReactNode;
+  tones: string[];
+  busyAction: SectionAction | null; // This section is being rewritten
+  disabled: boolean;                // Something else is generating or rewriting
+  onAction: (action: SectionAction, tone?: string) => void;
+  onRevert: (versionIdx: number) => void;
+  theme: 'dark' | 'light';
+}
+
+export const ACTION_NOTES: Record<SectionAction, string> = {
+  regenerate: 'Regenerated',
+  expand: 'Expanded',
+  shorten: 'Shortened',
+  tone: 'Tone changed'
+};
+
+const BUSY_LABELS: Record<SectionAction, string> = {
+  regenerate: 'Regenerating',
+  expand: 'Expanding',
+  shorten: 'Shortening',
+  tone: 'Changing tone'
+};
+
+// ----------------------------------------------------------------------
+// COMPONENT: Script Section (per-section rewrite tools and take history)
+// ----------------------------------------------------------------------
+export const ScriptSectionView: React.FC<ScriptSectionViewProps> = ({
+  id, section, children, renderMarkdown, tones, busyAction, disabled, onAction, onRevert, theme
+}) => {
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [compareIdx, setCompareIdx] = useState<number | null>(null);
+  const isDark = theme === 'dark';
+  const history = section.history || [];
+  const compared = compareIdx !== null ? history[compareIdx] : undefined;
+  const locked = disabled || busyAction !== null;
+
+  const toolButton = `p-1.5 rounded-sm transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    isDark ? 'text-zinc-400 hover:text-red-500 hover:bg-zinc-800' : 'text-slate-500 hover:text-red-600 hover:bg-slate-100'
+  }`;
+
+  const revert = (idx: number) => {
+    onRevert(idx);
+    setCompareIdx(null);
+  };
+
+  return (
+    <div id={id} className={`relative group/section -mx-4 px-4 py-1 rounded-sm border transition-colors ${
+      isHistoryOpen || busyAction ? isDark ? 'border-zinc-800' : 'border-slate-200' : 'border-transparent hover:border-dashed ' + (isDark ? 'hover:border-zinc-800' : 'hover:border-slate-300')
+    }`}>
+      {/* Toolbar */}
+      <div className={`absolute top-2 right-2 z-20 flex items-center gap-0.5 px-1 py-0.5 rounded-sm border shadow-lg transition-opacity ${
+        isHistoryOpen || busyAction ? 'opacity-100' : 'opacity-0 group-hover/section:opacity-100'
+      } ${isDark ? 'bg-zinc-950 border-zinc-800' : 'bg-white border-slate-200'}`}>
+        <span className={`px-1.5 text-[9px] font-bold uppercase tracking-widest ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
+          {SECTION_LABELS[section.kind]}
+        </span>
+        <button onClick={() => onAction('regenerate')} disabled={locked} className={toolButton} title="Regenerate Section">
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => onAction('expand')} disabled={locked} className={toolButton} title="Expand Section">
+          <Maximize2 className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => onAction('shorten')} disabled={locked} className={toolButton} title="Shorten Section">
+          <Minimize2 className="w-3.5 h-3.5" />
+        </button>
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAction('tone', e.target.value)}
+          disabled={locked}
+          className={`text-[10px] font-mono rounded-sm px-1 py-1 outline-none bg-transparent disabled:opacity-30 ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}
+          title="Change Tone"
+        >
+          <option value="">Tone...</option>
+          {tones.map(tone => <option key={tone} value={tone}>{tone}</option>)}
+        </select>
+        <button
+          onClick={() => { setIsHistoryOpen(!isHistoryOpen); setCompareIdx(null); }}
+          disabled={history.length === 0}
+          className={`${toolButton} flex items-center gap-1 ${isHistoryOpen ? 'text-red-500' : ''}`}
+          title="Earlier Versions"
+        >
+          <History className="w-3.5 h-3.5" />
+          {history.length > 0 && <span className="text-[10px] font-mono">{history.length}</span>}
+        </button>
+      </div>
+
+      {/* Section Body */}
+      <div className={`transition-opacity ${busyAction ? 'opacity-40 pointer-events-none' : ''}`}>
+        {children}
+      </div>
+      {busyAction && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className={`flex items-center gap-2 px-4 py-2 rounded-sm border text-[10px] font-bold uppercase tracking-widest shadow-xl ${isDark ? 'bg-zinc-950 border-zinc-700 text-zinc-300' : 'bg-white border-slate-300 text-slate-700'}`}>
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-red-600" /> {BUSY_LABELS[busyAction]}...
+          </span>
+        </div>
+      )}
+
+      {/* Version History & Compare */}
+      {isHistoryOpen && history.length > 0 && (
+        <div className={`mb-6 rounded-sm border p-4 ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200'}`}>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className={`text-[10px] font-bold uppercase tracking-wider flex items-center gap-2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
+              <History className="w-3 h-3" /> Earlier Versions
+            </h4>
+            <button onClick={() => setIsHistoryOpen(false)} className="text-zinc-500 hover:text-red-500" title="Close">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {[...history].reverse().map((version, reversedIdx) => {
+              const idx = history.length - 1 - reversedIdx;
+              return (
+                <button
+                  key={`${version.timestamp}-${idx}`}
+                  onClick={() => setCompareIdx(compareIdx === idx ? null : idx)}
+                  className={`px-2.5 py-1.5 rounded-sm border text-[10px] font-mono transition-colors ${
+                    compareIdx === idx
+                      ? 'border-red-600 text-red-500 bg-red-900/10'
+                      : isDark ? 'border-zinc-700 text-zinc-400 hover:border-zinc-500' : 'border-slate-300 text-slate-500 hover:border-slate-400'
+                  }`}
+                >
+                  {version.note} · {formatTime(version.timestamp)}
+                </button>
+              );
+            })}
+          </div>
+
+          {compared && (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 mt-4">
+              <div className={`rounded-sm border p-4 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+                <div className={`text-[10px] font-bold uppercase tracking-wider mb-2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`}>
+                  Current · {section.note || 'Original'}
+                </div>
+                <div className="text-sm">{renderMarkdown(sectionToMarkdown(section))}</div>
+              </div>
+              <div className="rounded-sm border border-red-900/50 p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-[10px] font-bold uppercase tracking-wider text-red-500">
+                    {compared.note} · {formatTime(compared.timestamp)}
+                  </span>
+                  <button
+                    onClick={() => revert(compareIdx!)}
+                    disabled={locked}
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-sm bg-red-700 hover:bg-red-600 text-white text-[10px] font-bold uppercase tracking-wider disabled:opacity-40 transition-colors"
+                  >
+                    <Undo2 className="w-3 h-3" /> Revert
+                  </button>
+                </div>
+                <div className="text-sm">{renderMarkdown(sectionToMarkdown({ ...section, title: compared.title, blocks: compared.blocks }))}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,7 @@
 
 import React from 'react';
-import { Sun, Moon, Youtube, FileText, FileVideo } from 'lucide-react';
-
-type AppMode = 'script' | 'transcribe';
+import { Sun, Moon, Youtube, FileText, FileVideo, MessageSquare, Film } from 'lucide-react';
+import { AppMode } from '../types';
 
 interface SidebarProps {
   theme: 'dark' | 'light';
@@ -64,7 +63,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
         
         <NavItem mode="script" icon={FileText} label="Script Writer" />
+        <NavItem mode="chat" icon={MessageSquare} label="Intel Chat" />
         <NavItem mode="transcribe" icon={FileVideo} label="Video Transcriber" />
+        <NavItem mode="stock" icon={Film} label="Stock Footage" />
       </div>
 
       <div className="p-6 pt-0">
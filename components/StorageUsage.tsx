@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { HardDrive } from 'lucide-react';
+import { StorageUsage as Usage, getStorageUsage, formatBytes } from '../utils/idb';
+
+interface StorageUsageProps {
+  refreshKey: unknown; // Re-measure whenever this changes, e.g. after a save or delete
+  theme: 'dark' | 'light';
+}
+
+const WARN_RATIO = 0.8;
+
+// ----------------------------------------------------------------------
+// COMPONENT: Storage Usage (how much of the browser's quota the archives use)
+// ----------------------------------------------------------------------
+export const StorageUsage: React.FC<StorageUsageProps> = ({ refreshKey, theme }) => {
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const isDark = theme === 'dark';
+
+  useEffect(() => {
+    let cancelled = false;
+    getStorageUsage()
+      .then(result => { if (!cancelled) setUsage(result); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  // Browsers without the Storage API can't report a quota
+  if (!usage || usage.quota === 0) return null;
+  const ratio = Math.min(1, usage.usage / usage.quota);
+  const isNearlyFull = ratio >= WARN_RATIO;
+
+  return (
+    <div className={`text-[10px] font-mono space-y-1 ${isNearlyFull ? 'text-amber-500' : isDark ? 'text-zinc-600' : 'text-slate-400'}`} title="Local storage used by this app in this browser">
+      <div className="flex items-center gap-1.5">
+        <HardDrive className="w-3 h-3" />
+        {formatBytes(usage.usage)} of {formatBytes(usage.quota)} used
+        {isNearlyFull && ' · nearly full'}
+      </div>
+      <div className={`h-1 rounded-full overflow-hidden ${isDark ? 'bg-zinc-800' : 'bg-slate-200'}`}>
+        <div className={`h-full ${isNearlyFull ? 'bg-amber-500' : 'bg-red-700'}`} style={{ width: `${Math.max(ratio * 100, 1)}%` }}></div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { X, Play, Pause, FlipHorizontal2, Maximize, Minus, Plus } from 'lucide-react';
+import { NarrationLine } from '../utils/scriptDocument';
+import { formatRuntime } from '../utils/runtime';
+
+interface TeleprompterProps {
+  title: string;
+  lines: NarrationLine[];
+  wordsPerMinute: number;
+  onClose: () => void;
+}
+
+interface TeleprompterSettings {
+  speed: number;    // Pixels per second
+  fontSize: number; // Pixels
+  mirror: boolean;
+}
+
+const SETTINGS_KEY = 'violen_teleprompter';
+const DEFAULT_SETTINGS: TeleprompterSettings = { speed: 40, fontSize: 48, mirror: false };
+const SPEED_RANGE = { min: 5, max: 200, step: 5 };
+const FONT_RANGE = { min: 24, max: 120, step: 4 };
+const NUDGE_PX = 80;
+// The line under this fraction of the screen height counts as the one being read
+const READ_LINE = 0.35;
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Stored values feed the scroll math and font size directly, so anything stale or hand-edited is coerced back into range
+const loadSettings = (): TeleprompterSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') || {};
+    const number = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+    return {
+      speed: clamp(number(stored.speed, DEFAULT_SETTINGS.speed), SPEED_RANGE),
+      fontSize: clamp(number(stored.fontSize, DEFAULT_SETTINGS.fontSize), FONT_RANGE),
+      mirror: stored.mirror === true
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// ----------------------------------------------------------------------
+// COMPONENT: Teleprompter (full-screen auto-scrolling narration)
+// ----------------------------------------------------------------------
+export const Teleprompter: React.FC<TeleprompterProps> = ({ title, lines, wordsPerMinute, onClose }) => {
+  const [settings, setSettings] = useState<TeleprompterSettings>(loadSettings);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentLine, setCurrentLine] = useState(0);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLParagraphElement | null)[]>([]);
+  // Sub-pixel progress; scrollTop only holds whole pixels, so slow speeds would otherwise stall
+  const positionRef = useRef(0);
+  const showSpeakers = new Set(lines.map(line => line.speaker)).size > 1;
+
+  const updateSettings = (patch: Partial<TeleprompterSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  };
+
+  const nudge = useCallback((delta: number) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    el.scrollTop += delta;
+    positionRef.current = el.scrollTop;
+  }, []);
+
+  // Auto-scroll
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const el = scrollRef.current;
+      if (el) {
+        positionRef.current += (settings.speed * (now - last)) / 1000;
+        el.scrollTop = positionRef.current;
+        if (el.scrollTop + el.clientHeight >= el.scrollHeight - 1) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, settings.speed]);
+
+  // Keyboard and pedal controls. Foot pedals usually send Page Up / Page Down.
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.tagName === 'INPUT') return;
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          setIsPlaying(playing => !playing);
+          break;
+        case 'ArrowDown':
+        case 'PageDown':
+          e.preventDefault();
+          nudge(NUDGE_PX);
+          break;
+        case 'ArrowUp':
+        case 'PageUp':
+          e.preventDefault();
+          nudge(-NUDGE_PX);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          setSettings(prev => ({ ...prev, speed: clamp(prev.speed + SPEED_RANGE.step, SPEED_RANGE) }));
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          setSettings(prev => ({ ...prev, speed: clamp(prev.speed - SPEED_RANGE.step, SPEED_RANGE) }));
+          break;
+        case 'Escape':
+          if (!document.fullscreenElement) onClose();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [nudge, onClose]);
+
+  // Persist Settings
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Leave browser full screen when the prompter closes
+  useEffect(() => {
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    if (!isPlaying) positionRef.current = el.scrollTop;
+    const readAt = el.scrollTop + el.clientHeight * READ_LINE;
+    const idx = lineRefs.current.findIndex(line => line && line.offsetTop + line.offsetHeight > readAt);
+    setCurrentLine(idx === -1 ? lines.length : idx);
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else rootRef.current?.requestFullscreen?.().catch(() => {});
+  };
+
+  const remainingWords = lines.slice(currentLine).reduce((total, line) => total + countWords(line.text), 0);
+  const remainingSeconds = (remainingWords / Math.max(1, wordsPerMinute)) * 60;
+
+  const controlButton = 'p-2 rounded-sm text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors';
+
+  return (
+    <div ref={rootRef} className="fixed inset-0 z-50 bg-black flex flex-col animate-fade-in">
+      {/* Controls */}
+      <div className="h-14 px-4 flex items-center gap-4 border-b border-zinc-800 bg-zinc-950 text-zinc-400 text-[10px] font-mono uppercase tracking-wider flex-shrink-0">
+        <button onClick={() => setIsPlaying(!isPlaying)} className={`${controlButton} ${isPlaying ? 'text-red-500' : ''}`} title="Play / Pause (Space)">
+          {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+
+        <label className="flex items-center gap-2">
+          Speed
+          <input
+            type="range"
+            min={SPEED_RANGE.min} max={SPEED_RANGE.max} step={SPEED_RANGE.step}
+            value={settings.speed}
+            onChange={(e) => updateSettings({ speed: Number(e.target.value) })}
+            className="w-28 accent-red-600"
+          />
+          <span className="w-8 text-zinc-300">{settings.speed}</span>
+        </label>
+
+        <div className="flex items-center gap-1">
+          Size
+          <button onClick={() => updateSettings({ fontSize: clamp(settings.fontSize - FONT_RANGE.step, FONT_RANGE) })} className={controlButton} title="Smaller Text">
+            <Minus className="w-3.5 h-3.5" />
+          </button>
+          <span className="w-8 text-center text-zinc-300">{settings.fontSize}</span>
+          <button onClick={() => updateSettings({ fontSize: clamp(settings.fontSize + FONT_RANGE.step, FONT_RANGE) })} className={controlButton} title="Larger Text">
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <button onClick={() => updateSettings({ mirror: !settings.mirror })} className={`${controlButton} ${settings.mirror ? 'text-red-500' : ''}`} title="Mirror (for beam-splitter glass)">
+          <FlipHorizontal2 className="w-4 h-4" />
+        </button>
+
+        <div className="flex-1 truncate text-center text-zinc-600 normal-case tracking-normal">{title}</div>
+
+        <span className="text-zinc-300" title={`At ${wordsPerMinute} words per minute`}>
+          {formatRuntime(remainingSeconds)} left
+        </span>
+        <button onClick={toggleFullscreen} className={controlButton} title="Full Screen">
+          <Maximize className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className={controlButton} title="Close (Esc)">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Script */}
+      <div className="relative flex-1 min-h-0">
+        <div className="absolute left-0 right-0 h-px bg-red-600/60 pointer-events-none z-10" style={{ top: `${READ_LINE * 100}%` }}></div>
+        <div ref={scrollRef} onScroll={handleScroll} className="h-full overflow-y-auto" style={{ scrollbarWidth: 'none' }}>
+          <div
+            className="max-w-5xl mx-auto px-10 text-white font-sans font-semibold"
+            style={{
+              fontSize: settings.fontSize,
+              lineHeight: 1.45,
+              transform: settings.mirror ? 'scaleX(-1)' : undefined,
+              paddingTop: `${READ_LINE * 100}vh`,
+              paddingBottom: '80vh'
+            }}
+          >
+            {lines.map((line, idx) => (
+              <p
+                key={idx}
+                ref={el => { lineRefs.current[idx] = el; }}
+                className={`transition-opacity duration-300 ${line.sectionStart && idx > 0 ? 'mt-[1.5em]' : 'mt-[0.6em]'} ${idx < currentLine ? 'opacity-30' : 'opacity-100'}`}
+              >
+                {showSpeakers && <span className="block text-[0.4em] font-mono uppercase tracking-widest text-red-500">{line.speaker}</span>}
+                {line.text}
+              </p>
+            ))}
+            {lines.length === 0 && <p className="text-zinc-600 text-center text-2xl">No narration lines in this script.</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="h-8 flex items-center justify-center gap-6 border-t border-zinc-900 text-[10px] font-mono text-zinc-600 flex-shrink-0">
+        <span>SPACE play/pause</span>
+        <span>↑ ↓ / PG UP PG DN nudge</span>
+        <span>← → speed</span>
+        <span>ESC close</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Undo2, Redo2, Replace, BookA, Plus, Trash2, CaseSensitive, WholeWord, Search } from 'lucide-react';
+import { TranscriptSegment, VocabularyEntry } from '../types';
+import { formatTimecode } from '../utils/captions';
+import { getSpeakerName } from '../utils/diarization';
+import { buildFindPattern, countMatches, replaceInSegments, applyVocabulary } from '../utils/transcriptEdits';
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  speakerNames: Record<number, string>;
+  activeIndex: number;
+  onChange: (segments: TranscriptSegment[]) => void;
+  onSeek: (segment: TranscriptSegment) => void;
+  theme: 'dark' | 'light';
+}
+
+const VOCABULARY_KEY = 'violen_transcript_vocabulary';
+const MAX_HISTORY = 100;
+
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ segments, speakerNames, activeIndex, onChange, onSeek, theme }) => {
+  const [past, setPast] = useState<TranscriptSegment[][]>([]);
+  const [future, setFuture] = useState<TranscriptSegment[][]>([]);
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[]>([]);
+  const [showVocabulary, setShowVocabulary] = useState(false);
+  const [newFrom, setNewFrom] = useState('');
+  const [newTo, setNewTo] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  // Consecutive keystrokes in one line share a single undo step
+  const editGroupRef = useRef<number | null>(null);
+  const isDark = theme === 'dark';
+
+  // Load Vocabulary
+  useEffect(() => {
+    const stored = localStorage.getItem(VOCABULARY_KEY);
+    if (stored) {
+      try {
+        setVocabulary(JSON.parse(stored));
+      } catch (e) { console.error("Failed to load vocabulary"); }
+    }
+  }, []);
+
+  const saveVocabulary = (next: VocabularyEntry[]) => {
+    setVocabulary(next);
+    localStorage.setItem(VOCABULARY_KEY, JSON.stringify(next));
+  };
+
+  const pattern = useMemo(() => buildFindPattern(find, { matchCase, wholeWord }), [find, matchCase, wholeWord]);
+  const matchCount = useMemo(() => countMatches(segments, pattern), [segments, pattern]);
+
+  const commit = (next: TranscriptSegment[], group: number | null = null) => {
+    if (group === null || group !== editGroupRef.current) {
+      setPast(prev => [...prev, segments].slice(-MAX_HISTORY));
+      setFuture([]);
+    }
+    editGroupRef.current = group;
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    editGroupRef.current = null;
+    setPast(past.slice(0, -1));
+    setFuture([segments, ...future]);
+    onChange(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    editGroupRef.current = null;
+    setPast([...past, segments]);
+    setFuture(future.slice(1));
+    onChange(future[0]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  };
+
+  const editSegment = (idx: number, text: string) => {
+    commit(segments.map((segment, i) => i === idx ? { ...segment, text } : segment), idx);
+  };
+
+  const handleReplaceAll = () => {
+    const result = replaceInSegments(segments, pattern, replacement);
+    if (result.count > 0) commit(result.segments);
+    setStatus(`Replaced ${result.count} match${result.count === 1 ? '' : 'es'}.`);
+  };
+
+  const handleApplyVocabulary = () => {
+    const result = applyVocabulary(segments, vocabulary);
+    if (result.count > 0) commit(result.segments);
+    setStatus(`Vocabulary fixed ${result.count} word${result.count === 1 ? '' : 's'}.`);
+  };
+
+  const addVocabulary = (from: string, to: string) => {
+    if (!from.trim() || vocabulary.some(entry => entry.from.trim().toLowerCase() === from.trim().toLowerCase())) return;
+    saveVocabulary([...vocabulary, { id: Date.now().toString(), from: from.trim(), to }]);
+    setNewFrom('');
+    setNewTo('');
+  };
+
+  const inputClass = `rounded-sm px-2 py-1.5 text-xs font-mono outline-none border transition-all ${
+    isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-100 focus:border-red-600' : 'bg-white border-slate-300 text-slate-900 focus:border-red-600'
+  }`;
+  const toolButton = (active = false) => `p-1.5 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    active
+      ? 'bg-red-600/20 text-red-500'
+      : isDark ? 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800' : 'text-slate-500 hover:text-slate-900 hover:bg-slate-100'
+  }`;
+  const textButton = `px-2.5 py-1.5 rounded text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5 transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    isDark ? 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+  }`;
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      {/* Toolbar */}
+      <div className={`px-6 py-3 border-b space-y-3 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={undo} disabled={past.length === 0} className={toolButton()} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button onClick={redo} disabled={future.length === 0} className={toolButton()} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" />
+          </button>
+
+          <div className="w-px h-4 bg-zinc-700/20 mx-1"></div>
+
+          <div className="relative">
+            <Search className={`w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 ${isDark ? 'text-zinc-500' : 'text-slate-400'}`} />
+            <input value={find} onChange={(e) => setFind(e.target.value)} placeholder="Find" className={`${inputClass} pl-7 w-40`} />
+          </div>
+          <input value={replacement} onChange={(e) => setReplacement(e.target.value)} placeholder="Replace with" className={`${inputClass} w-40`} />
+          <button onClick={() => setMatchCase(!matchCase)} className={toolButton(matchCase)} title="Match Case">
+            <CaseSensitive className="w-4 h-4" />
+          </button>
+          <button onClick={() => setWholeWord(!wholeWord)} className={toolButton(wholeWord)} title="Whole Word">
+            <WholeWord className="w-4 h-4" />
+          </button>
+          <span className={`text-[10px] font-mono ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+            {find ? `${matchCount} match${matchCount === 1 ? '' : 'es'}` : ''}
+          </span>
+          <button onClick={handleReplaceAll} disabled={matchCount === 0} className={textButton}>
+            <Replace className="w-3.5 h-3.5" /> Replace All
+          </button>
+          <button onClick={() => addVocabulary(find, replacement)} disabled={!find.trim()} className={toolButton()} title="Save as Vocabulary Rule">
+            <Plus className="w-4 h-4" />
+          </button>
+
+          <div className="flex-1"></div>
+
+          <button onClick={() => setShowVocabulary(!showVocabulary)} className={toolButton(showVocabulary)} title="Custom Vocabulary">
+            <BookA className="w-4 h-4" />
+          </button>
+          <button onClick={handleApplyVocabulary} disabled={vocabulary.length === 0} className={textButton}>
+            Apply Vocabulary
+          </button>
+        </div>
+
+        {status && <div className={`text-[10px] font-mono ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>{status}</div>}
+
+        {/* Custom Vocabulary */}
+        {showVocabulary && (
+          <div className={`rounded border p-3 space-y-2 ${isDark ? 'border-zinc-800 bg-zinc-950' : 'border-slate-200 bg-slate-50'}`}>
+            <div className={`text-[10px] font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+              Custom Vocabulary <span className="font-normal normal-case tracking-normal opacity-70">(whole words, any case)</span>
+            </div>
+            {vocabulary.map(entry => (
+              <div key={entry.id} className={`flex items-center gap-2 text-xs font-mono group ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>
+                <span className="line-through opacity-50">{entry.from}</span>
+                <span className="opacity-40">→</span>
+                <span className="font-bold">{entry.to || <em className="opacity-50">(remove)</em>}</span>
+                <button
+                  onClick={() => saveVocabulary(vocabulary.filter(v => v.id !== entry.id))}
+                  className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-red-500"
+                  title="Remove Rule"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+            {vocabulary.length === 0 && <div className="text-[10px] opacity-40 italic">No rules yet. Add names and places Whisper keeps mishearing.</div>}
+            <form
+              onSubmit={(e) => { e.preventDefault(); addVocabulary(newFrom, newTo); }}
+              className="flex items-center gap-2 pt-1"
+            >
+              <input value={newFrom} onChange={(e) => setNewFrom(e.target.value)} placeholder="Heard as" className={`${inputClass} w-40`} />
+              <span className="opacity-40 text-xs">→</span>
+              <input value={newTo} onChange={(e) => setNewTo(e.target.value)} placeholder="Correct spelling" className={`${inputClass} w-40`} />
+              <button type="submit" disabled={!newFrom.trim()} className={textButton}>
+                <Plus className="w-3.5 h-3.5" /> Add
+              </button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      {/* Segment Editor */}
+      <div className="p-6 max-h-[500px] overflow-y-auto custom-scrollbar font-mono text-sm space-y-1">
+        {segments.map((segment, idx) => {
+          const hasMatch = !!pattern && segment.text.search(pattern) !== -1;
+          return (
+            <div
+              key={idx}
+              className={`flex gap-4 px-3 py-1 rounded border-l-2 ${
+                idx === activeIndex
+                  ? isDark ? 'bg-red-900/20 border-red-600' : 'bg-red-50 border-red-600'
+                  : hasMatch ? 'border-amber-500' : 'border-transparent'
+              }`}
+            >
+              <button
+                onClick={() => onSeek(segment)}
+                className={`flex-shrink-0 text-xs pt-1.5 hover:underline ${isDark ? 'text-red-500/80' : 'text-red-600'}`}
+                title="Jump to this line"
+              >
+                {formatTimecode(segment.start)}
+              </button>
+              <div className="flex-1 min-w-0">
+                {segment.speaker !== undefined && (
+                  <div className={`text-[10px] font-bold pt-1 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>{getSpeakerName(speakerNames, segment.speaker)}</div>
+                )}
+                <textarea
+                  value={segment.text}
+                  rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                  onChange={(e) => editSegment(idx, e.target.value)}
+                  onBlur={() => { editGroupRef.current = null; }}
+                  className={`w-full resize-none bg-transparent rounded px-1.5 py-1 outline-none border border-transparent transition-colors leading-relaxed ${
+                    isDark ? 'text-zinc-300 hover:border-zinc-800 focus:border-zinc-700 focus:bg-zinc-900' : 'text-slate-700 hover:border-slate-200 focus:border-slate-300 focus:bg-white'
+                  }`}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
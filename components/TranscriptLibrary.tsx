@@ -0,0 +1,230 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Library, Search, Trash2, X, Cpu, Cloud, Play } from 'lucide-react';
+import { SavedTranscript, TranscriptSegment } from '../types';
+import { formatTimecode } from '../utils/captions';
+import { formatTime } from '../utils/helpers';
+import { getSpeakerName } from '../utils/diarization';
+
+interface TranscriptLibraryProps {
+  entries: SavedTranscript[];
+  onDelete: (id: string) => void;
+  // Returns false when the original file isn't loaded, so there's nothing to play
+  onJump: (entry: SavedTranscript, segment: TranscriptSegment) => boolean;
+  theme: 'dark' | 'light';
+}
+
+interface SearchHit {
+  entry: SavedTranscript;
+  segmentIndex: number;
+}
+
+const MAX_VISIBLE_HITS = 50;
+
+// Case-insensitive match over every line, including the speaker's current name
+const searchTranscripts = (entries: SavedTranscript[], query: string): SearchHit[] => {
+  const needle = query.trim().toLowerCase();
+  if (needle.length < 2) return [];
+  const hits: SearchHit[] = [];
+  entries.forEach(entry => {
+    entry.segments.forEach((segment, segmentIndex) => {
+      const speaker = segment.speaker !== undefined ? getSpeakerName(entry.speakerNames, segment.speaker) : '';
+      if (`${speaker} ${segment.text}`.toLowerCase().includes(needle)) hits.push({ entry, segmentIndex });
+    });
+  });
+  return hits;
+};
+
+const highlightMatch = (text: string, query: string) => {
+  const needle = query.trim().toLowerCase();
+  const idx = text.toLowerCase().indexOf(needle);
+  if (!needle || idx === -1) return text;
+  return (
+    <>
+      {text.slice(0, idx)}
+      <mark className="bg-red-600/30 text-inherit rounded-sm">{text.slice(idx, idx + needle.length)}</mark>
+      {text.slice(idx + needle.length)}
+    </>
+  );
+};
+
+const formatDuration = (entry: SavedTranscript) => {
+  const seconds = entry.duration ?? entry.segments[entry.segments.length - 1]?.end ?? 0;
+  return formatTimecode(seconds);
+};
+
+export const TranscriptLibrary: React.FC<TranscriptLibraryProps> = ({ entries, onDelete, onJump, theme }) => {
+  const [query, setQuery] = useState('');
+  const [openEntryId, setOpenEntryId] = useState<string | null>(null);
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  const [notLoaded, setNotLoaded] = useState(false);
+  const viewerScrollRef = useRef<HTMLDivElement>(null);
+  const lineRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const isDark = theme === 'dark';
+
+  const hits = useMemo(() => searchTranscripts(entries, query), [entries, query]);
+  const openEntry = entries.find(entry => entry.id === openEntryId) || null;
+
+  // Bring the jumped-to line into the middle of the viewer
+  useEffect(() => {
+    const container = viewerScrollRef.current;
+    const line = lineRefs.current[focusedIndex];
+    if (!container || !line) return;
+    container.scrollTo({ top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2, behavior: 'smooth' });
+  }, [openEntryId, focusedIndex]);
+
+  const jumpTo = (entry: SavedTranscript, segmentIndex: number) => {
+    setOpenEntryId(entry.id);
+    setFocusedIndex(segmentIndex);
+    setNotLoaded(!onJump(entry, entry.segments[segmentIndex]));
+  };
+
+  const openTranscript = (entry: SavedTranscript) => {
+    setOpenEntryId(entry.id);
+    setFocusedIndex(-1);
+    setNotLoaded(false);
+  };
+
+  const handleDelete = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (openEntryId === id) setOpenEntryId(null);
+    onDelete(id);
+  };
+
+  const mutedText = isDark ? 'text-zinc-500' : 'text-slate-500';
+
+  return (
+    <div className={`rounded-xl border overflow-hidden ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200 shadow-sm'}`}>
+      <div className={`px-4 py-3 border-b flex items-center justify-between gap-4 ${isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-slate-200 bg-slate-50'}`}>
+        <h3 className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 flex-shrink-0 ${isDark ? 'text-zinc-400' : 'text-slate-600'}`}>
+          <Library className="w-4 h-4" /> Transcript Library
+          <span className="text-[10px] font-mono opacity-50">{entries.length}</span>
+        </h3>
+        <div className="relative w-full max-w-xs">
+          <Search className={`w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 ${mutedText}`} />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search every transcript..."
+            className={`w-full rounded-sm pl-8 pr-7 py-1.5 text-xs font-mono outline-none border transition-all ${
+              isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-100 focus:border-red-600' : 'bg-white border-slate-300 text-slate-900 focus:border-red-600'
+            }`}
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className={`absolute right-2 top-1/2 -translate-y-1/2 ${mutedText} hover:text-red-500`} title="Clear Search">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={`grid md:grid-cols-2 divide-y md:divide-y-0 md:divide-x ${isDark ? 'divide-zinc-800' : 'divide-slate-200'}`}>
+        {/* Entries or Search Hits */}
+        <div className="max-h-[360px] overflow-y-auto custom-scrollbar">
+          {query.trim().length >= 2 ? (
+            hits.length > 0 ? (
+              <>
+                {hits.slice(0, MAX_VISIBLE_HITS).map(({ entry, segmentIndex }) => {
+                  const segment = entry.segments[segmentIndex];
+                  return (
+                    <button
+                      key={`${entry.id}-${segmentIndex}`}
+                      onClick={() => jumpTo(entry, segmentIndex)}
+                      className={`w-full text-left px-4 py-2 border-l-2 transition-colors ${
+                        openEntryId === entry.id && focusedIndex === segmentIndex
+                          ? isDark ? 'bg-zinc-900 border-l-red-600' : 'bg-slate-50 border-l-red-600'
+                          : isDark ? 'border-l-transparent hover:bg-zinc-900/50' : 'border-l-transparent hover:bg-slate-50'
+                      }`}
+                    >
+                      <div className={`text-[10px] font-mono truncate ${mutedText}`}>
+                        <span className={isDark ? 'text-red-500/80' : 'text-red-600'}>{formatTimecode(segment.start)}</span> • {entry.fileName}
+                      </div>
+                      <div className={`text-xs mt-0.5 line-clamp-2 ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>
+                        {segment.speaker !== undefined && <span className="font-bold">{getSpeakerName(entry.speakerNames, segment.speaker)}: </span>}
+                        {highlightMatch(segment.text.trim(), query)}
+                      </div>
+                    </button>
+                  );
+                })}
+                {hits.length > MAX_VISIBLE_HITS && (
+                  <div className={`text-[10px] text-center py-3 ${mutedText}`}>{hits.length - MAX_VISIBLE_HITS} more matches. Refine the search to see them.</div>
+                )}
+              </>
+            ) : (
+              <div className="text-[10px] opacity-30 text-center py-6 italic">No lines match "{query.trim()}".</div>
+            )
+          ) : (
+            <>
+              {entries.map(entry => (
+                <div
+                  key={entry.id}
+                  onClick={() => openTranscript(entry)}
+                  className={`px-4 py-2.5 border-l-2 cursor-pointer transition-colors group flex items-center gap-3 ${
+                    openEntryId === entry.id
+                      ? isDark ? 'bg-zinc-900 border-l-red-600' : 'bg-slate-50 border-l-red-600'
+                      : isDark ? 'border-l-transparent hover:bg-zinc-900/50' : 'border-l-transparent hover:bg-slate-50'
+                  }`}
+                >
+                  {entry.engine === 'cloud' ? <Cloud className={`w-3.5 h-3.5 flex-shrink-0 ${mutedText}`} /> : <Cpu className={`w-3.5 h-3.5 flex-shrink-0 ${mutedText}`} />}
+                  <div className="min-w-0 flex-1">
+                    <div className={`text-xs font-mono truncate ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>{entry.fileName}</div>
+                    <div className={`text-[10px] mt-0.5 ${mutedText}`}>
+                      {new Date(entry.createdAt).toLocaleDateString()} {formatTime(entry.createdAt)} • {formatDuration(entry)} • {entry.segments.length} lines
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => handleDelete(entry.id, e)}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity text-zinc-500 hover:text-red-500"
+                    title="Delete from Library"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              {entries.length === 0 && <div className="text-[10px] opacity-30 text-center py-6 italic">Finished transcripts are saved here automatically.</div>}
+            </>
+          )}
+        </div>
+
+        {/* Saved Transcript Viewer */}
+        <div ref={viewerScrollRef} className="relative max-h-[360px] overflow-y-auto custom-scrollbar">
+          {openEntry ? (
+            <>
+              {notLoaded && (
+                <div className={`sticky top-0 z-10 px-4 py-2 text-[10px] border-b ${isDark ? 'bg-zinc-950 border-zinc-800 text-zinc-500' : 'bg-slate-50 border-slate-200 text-slate-500'}`}>
+                  Add "{openEntry.fileName}" to the queue to play from this line.
+                </div>
+              )}
+              <div className="p-3 font-mono text-xs leading-relaxed space-y-0.5">
+                {openEntry.segments.map((segment, idx) => (
+                  <button
+                    key={idx}
+                    ref={(el) => { lineRefs.current[idx] = el; }}
+                    onClick={() => jumpTo(openEntry, idx)}
+                    className={`w-full text-left flex gap-3 px-2 py-1 rounded border-l-2 transition-colors ${
+                      idx === focusedIndex
+                        ? isDark ? 'bg-red-900/20 border-red-600 text-zinc-100' : 'bg-red-50 border-red-600 text-slate-900'
+                        : isDark ? 'border-transparent text-zinc-400 hover:bg-zinc-800/50' : 'border-transparent text-slate-600 hover:bg-slate-100'
+                    }`}
+                    title="Jump to this line"
+                  >
+                    <span className={`flex-shrink-0 ${isDark ? 'text-red-500/80' : 'text-red-600'}`}>{formatTimecode(segment.start)}</span>
+                    <span>
+                      {segment.speaker !== undefined && <span className="font-bold">{getSpeakerName(openEntry.speakerNames, segment.speaker)}: </span>}
+                      {segment.text.trim()}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className={`h-full min-h-[120px] flex flex-col items-center justify-center gap-2 text-[10px] ${mutedText} opacity-60`}>
+              <Play className="w-4 h-4" />
+              Open a transcript or search hit to read it here.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
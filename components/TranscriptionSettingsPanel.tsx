@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Settings2, ChevronDown } from 'lucide-react';
+import { TranscriptionSettings, WhisperModelSize } from '../types';
+import { getWhisperModelId } from '../services/whisper';
+import { CLOUD_LIMIT_LABEL } from '../services/transcription';
+
+interface TranscriptionSettingsPanelProps {
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  disabled?: boolean;
+  theme: 'dark' | 'light';
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+  engine: 'local',
+  modelSize: 'tiny',
+  englishOnly: true,
+  language: '',
+  task: 'transcribe',
+  channel: 'mix',
+  diarize: false
+};
+
+const MODEL_SIZES: { id: WhisperModelSize; label: string; download: string }[] = [
+  { id: 'tiny', label: 'Tiny', download: '~40MB' },
+  { id: 'base', label: 'Base', download: '~75MB' },
+  { id: 'small', label: 'Small', download: '~250MB' },
+];
+
+const LANGUAGES: { code: string; label: string }[] = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'uk', label: 'Ukrainian' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'sv', label: 'Swedish' },
+];
+
+export const TranscriptionSettingsPanel: React.FC<TranscriptionSettingsPanelProps> = ({ settings, onChange, disabled, theme }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isDark = theme === 'dark';
+  // Whisper options don't apply when every file goes to the cloud
+  const localDisabled = disabled || settings.engine === 'cloud';
+
+  const selectClass = `w-full rounded-sm px-3 py-2 text-xs font-mono outline-none transition-all border appearance-none disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDark ? 'bg-[#18181b] border-zinc-700 text-zinc-100 focus:border-red-600' : 'bg-slate-50 border-slate-300 text-slate-900 focus:border-red-600'
+  }`;
+  const labelClass = `text-[10px] font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500' : 'text-slate-500'}`;
+
+  // English-only checkpoints have no language or translate tokens
+  const setEnglishOnly = (englishOnly: boolean) => {
+    onChange(englishOnly
+      ? { ...settings, englishOnly, language: '', task: 'transcribe' }
+      : { ...settings, englishOnly });
+  };
+
+  return (
+    <div className={`rounded-xl border overflow-hidden ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200 shadow-sm'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full px-4 py-3 flex items-center justify-between text-left ${isDark ? 'hover:bg-zinc-900' : 'hover:bg-slate-50'}`}
+      >
+        <span className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 ${isDark ? 'text-zinc-400' : 'text-slate-600'}`}>
+          <Settings2 className="w-4 h-4" /> Engine Settings
+        </span>
+        <span className="flex items-center gap-3">
+          <span className="text-[10px] font-mono opacity-50">
+            {settings.engine === 'cloud' ? 'gemini' : `${settings.engine === 'auto' ? 'auto • ' : ''}${getWhisperModelId(settings).replace('Xenova/', '')}`} • {settings.language || 'auto'} • {settings.task} • {settings.channel === 'mix' ? 'mix' : `ch${settings.channel + 1}`}{settings.diarize ? ' • speakers' : ''}
+          </span>
+          <ChevronDown className={`w-4 h-4 opacity-50 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className={`px-4 pb-4 pt-2 grid grid-cols-2 md:grid-cols-3 gap-4 border-t ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+          <div className="space-y-1.5">
+            <label className={labelClass}>Engine</label>
+            <select
+              value={settings.engine}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...settings, engine: e.target.value as TranscriptionSettings['engine'] })}
+              className={selectClass}
+            >
+              <option value="local">Local Whisper (private)</option>
+              <option value="cloud">Gemini Cloud (≤{CLOUD_LIMIT_LABEL})</option>
+              <option value="auto">Auto (cloud if it fits)</option>
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Model Size</label>
+            <select
+              value={settings.modelSize}
+              disabled={localDisabled}
+              onChange={(e) => onChange({ ...settings, modelSize: e.target.value as WhisperModelSize })}
+              className={selectClass}
+            >
+              {MODEL_SIZES.map(size => (
+                <option key={size.id} value={size.id}>{size.label} ({size.download})</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Variant</label>
+            <select
+              value={settings.englishOnly ? 'en' : 'multi'}
+              disabled={localDisabled}
+              onChange={(e) => setEnglishOnly(e.target.value === 'en')}
+              className={selectClass}
+            >
+              <option value="en">English-only</option>
+              <option value="multi">Multilingual</option>
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Spoken Language</label>
+            <select
+              value={settings.language}
+              disabled={localDisabled || settings.englishOnly}
+              onChange={(e) => onChange({ ...settings, language: e.target.value })}
+              className={selectClass}
+            >
+              {LANGUAGES.map(lang => (
+                <option key={lang.code} value={lang.code}>{lang.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Task</label>
+            <select
+              value={settings.task}
+              disabled={localDisabled || settings.englishOnly}
+              onChange={(e) => onChange({ ...settings, task: e.target.value as TranscriptionSettings['task'] })}
+              className={selectClass}
+            >
+              <option value="transcribe">Transcribe (original language)</option>
+              <option value="translate">Translate to English</option>
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Audio Channel</label>
+            <select
+              value={String(settings.channel)}
+              disabled={localDisabled}
+              onChange={(e) => onChange({ ...settings, channel: e.target.value === 'mix' ? 'mix' : Number(e.target.value) })}
+              className={selectClass}
+            >
+              <option value="mix">Mix all channels</option>
+              <option value="0">Channel 1 (Left)</option>
+              <option value="1">Channel 2 (Right)</option>
+            </select>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Speakers</label>
+            <select
+              value={settings.diarize ? 'on' : 'off'}
+              disabled={localDisabled}
+              onChange={(e) => onChange({ ...settings, diarize: e.target.value === 'on' })}
+              className={selectClass}
+            >
+              <option value="off">No speaker labels</option>
+              <option value="on">Detect speakers (+~80MB)</option>
+            </select>
+          </div>
+
+          {settings.engine !== 'local' && (
+            <p className={`col-span-2 md:col-span-3 text-[10px] ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
+              Cloud runs upload the file to Gemini, which adds speaker labels and audio descriptions. Files over {CLOUD_LIMIT_LABEL} {settings.engine === 'auto' ? 'fall back to Local Whisper' : 'are rejected'}.
+            </p>
+          )}
+          {settings.engine !== 'cloud' && settings.englishOnly && (
+            <p className={`col-span-2 md:col-span-3 text-[10px] ${isDark ? 'text-zinc-600' : 'text-slate-400'}`}>
+              Switch to a multilingual model to pick a language or translate foreign-language footage.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,121 +1,379 @@
-
 import React, { useState, useRef, useEffect } from 'react';
-import { UploadCloud, Video, FileText, Trash2, Copy, Check, Loader2, AlertTriangle, FileVideo, Cpu, Download } from 'lucide-react';
-import Markdown from 'react-markdown';
+import { UploadCloud, Video, FileText, Trash2, Copy, Check, Loader2, AlertTriangle, FileVideo, Cpu, Download, Subtitles, ListVideo, Play, X, RotateCcw, CheckCircle2, Clock, Ban, Music, Users, Cloud, Pencil } from 'lucide-react';
+import { TranscriptSegment, TranscriptionSettings, TranscriptionJob, TranscriptionResult, SavedTranscript } from '../types';
+import { formatTimecode, segmentsToText, segmentsToSrt, segmentsToVtt, findSegmentIndexAt } from '../utils/captions';
+import { downloadFile, collectDroppedFiles, fileToBase64 } from '../utils/helpers';
+import { createWhisperClient, getWhisperModelId, WhisperClient, WhisperProgress, WHISPER_SAMPLE_RATE } from '../services/whisper';
+import { transcribeVideo } from '../services/gemini';
+import { resolveTranscriptionEngine, ENGINE_LABELS, CLOUD_LIMIT_LABEL } from '../services/transcription';
+import { isTranscribableFile, readMediaDuration, streamAudioWindows } from '../utils/audio';
+import { createSpeakerClusterer, getSpeakerName, listSpeakers } from '../utils/diarization';
+import { idbGetAll, idbPut, idbDelete, describeStorageError, STORES } from '../utils/idb';
+import { TranscriptLibrary } from './TranscriptLibrary';
+import { TranscriptEditor } from './TranscriptEditor';
+import { TranscriptionSettingsPanel, DEFAULT_TRANSCRIPTION_SETTINGS } from './TranscriptionSettingsPanel';
 
 interface VideoTranscriberProps {
   theme: 'dark' | 'light';
 }
 
+const SETTINGS_KEY = 'violen_transcriber_settings';
+const WINDOW_SECONDS = 120;
+
+const STAGE_LABELS: Record<NonNullable<TranscriptionJob['stage']>, string> = {
+  extracting: 'Extracting Audio...',
+  downloading: 'Downloading Model (One-time)...',
+  initializing: 'Loading Model...',
+  uploading: 'Uploading to Gemini...',
+  transcribing: 'Transcribing Audio...'
+};
+
+const SPEAKER_COLORS = ['text-sky-500', 'text-amber-500', 'text-emerald-500', 'text-fuchsia-500', 'text-orange-500', 'text-teal-500'];
+
+const exportCaptions = (job: TranscriptionJob, format: 'srt' | 'vtt') => {
+  const baseName = job.file.name.replace(/\.[^.]+$/, '') || 'transcript';
+  if (format === 'srt') {
+    downloadFile(segmentsToSrt(job.segments, job.speakerNames), `${baseName}.srt`, 'application/x-subrip');
+  } else {
+    downloadFile(segmentsToVtt(job.segments, job.speakerNames), `${baseName}.vtt`, 'text/vtt');
+  }
+};
+
 // ----------------------------------------------------------------------
-// WORKER CODE (Inlined to function without external files)
+// COMPONENT: Queue Row
 // ----------------------------------------------------------------------
-const WORKER_SCRIPT = `
-import { pipeline, env } from 'https://cdn.jsdelivr.net/npm/@xenova/transformers@2.16.0';
-
-// Configure to load from CDN
-env.allowLocalModels = false;
-env.useBrowserCache = true;
-
-class AudioTranscriber {
-  static instance = null;
-
-  static async getInstance(progress_callback = null) {
-    if (this.instance === null) {
-      // Using 'whisper-tiny.en' for speed and accuracy trade-off. 
-      // It is small (~40MB) and runs fast in browser.
-      this.instance = await pipeline('automatic-speech-recognition', 'Xenova/whisper-tiny.en', { 
-        progress_callback 
-      });
-    }
-    return this.instance;
-  }
+interface QueueRowProps {
+  job: TranscriptionJob;
+  isSelected: boolean;
+  isDark: boolean;
+  onOpen: () => void;
+  onCancel: () => void;
+  onRetry: () => void;
+  onDelete: () => void;
 }
 
-self.addEventListener('message', async (event) => {
-  const { audio } = event.data;
+const QueueRow: React.FC<QueueRowProps> = ({ job, isSelected, isDark, onOpen, onCancel, onRetry, onDelete }) => {
+  const statusIcon = {
+    queued: <Clock className="w-4 h-4 text-zinc-500" />,
+    processing: <Loader2 className="w-4 h-4 text-red-500 animate-spin" />,
+    done: <CheckCircle2 className="w-4 h-4 text-green-500" />,
+    error: <AlertTriangle className="w-4 h-4 text-red-500" />,
+    cancelled: <Ban className="w-4 h-4 text-zinc-500" />
+  }[job.status];
 
-  try {
-    const transcriber = await AudioTranscriber.getInstance((data) => {
-      self.postMessage({ status: 'progress', data });
-    });
+  const statusText = job.status === 'processing'
+    ? `${job.stage ? STAGE_LABELS[job.stage] : 'Running...'}${job.percent !== undefined ? ` ${job.percent.toFixed(0)}%` : ''}`
+    : job.status === 'error'
+      ? job.error || 'Transcription failed.'
+      : job.status === 'done'
+        ? job.segments.length > 0 ? `${job.segments.length} segments` : 'Transcript cleared'
+        : job.status.toUpperCase();
 
-    // Run transcription
-    const output = await transcriber(audio, {
-      chunk_length_s: 30,
-      stride_length_s: 5,
-      return_timestamps: true
-    });
+  const iconButton = `p-1.5 rounded transition-colors ${isDark ? 'text-zinc-500 hover:text-zinc-100 hover:bg-zinc-800' : 'text-slate-400 hover:text-slate-900 hover:bg-slate-100'}`;
 
-    self.postMessage({ status: 'complete', text: output.text });
-  } catch (error) {
-    self.postMessage({ status: 'error', error: error.message });
-  }
-});
-`;
+  return (
+    <div
+      onClick={onOpen}
+      className={`px-4 py-3 flex items-center gap-3 cursor-pointer border-l-2 transition-colors group ${
+        isSelected
+          ? isDark ? 'bg-zinc-900 border-l-red-600' : 'bg-slate-50 border-l-red-600'
+          : isDark ? 'border-l-transparent hover:bg-zinc-900/50' : 'border-l-transparent hover:bg-slate-50'
+      }`}
+    >
+      {statusIcon}
+      <div className="min-w-0 flex-1">
+        <div className={`text-xs font-mono truncate ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>{job.file.name}</div>
+        <div className={`text-[10px] truncate mt-0.5 ${job.status === 'error' ? 'text-red-500' : isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+          {(job.file.size / (1024 * 1024)).toFixed(1)} MB • {statusText}
+        </div>
+        {job.engine && (
+          <div className={`text-[10px] truncate mt-0.5 ${isDark ? 'text-zinc-600' : 'text-slate-400'}`} title={job.engineReason}>
+            {job.engine === 'cloud' ? <Cloud className="w-3 h-3 inline -mt-0.5 mr-1" /> : <Cpu className="w-3 h-3 inline -mt-0.5 mr-1" />}
+            {ENGINE_LABELS[job.engine]}{job.engineReason ? ` • ${job.engineReason}` : ''}
+          </div>
+        )}
+        {job.status === 'processing' && job.percent !== undefined && (
+          <div className={`mt-1.5 h-0.5 w-full rounded ${isDark ? 'bg-zinc-800' : 'bg-slate-200'}`}>
+            <div className="h-full bg-red-600 rounded transition-all" style={{ width: `${Math.min(100, job.percent)}%` }} />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-0.5 flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+        {job.status === 'done' && (
+          <button onClick={() => exportCaptions(job, 'srt')} className={iconButton} title="Export SRT">
+            <Subtitles className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {(job.status === 'queued' || job.status === 'processing') && (
+          <button onClick={onCancel} className={iconButton} title="Cancel">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {(job.status === 'error' || job.status === 'cancelled' || job.status === 'done') && (
+          <button onClick={onRetry} className={iconButton} title={job.status === 'done' ? 'Transcribe Again' : 'Retry'}>
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onDelete} className="p-1.5 rounded hover:bg-red-500/10 text-zinc-500 hover:text-red-500 transition-colors" title="Remove">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </div>
+  );
+};
 
 export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) => {
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [transcription, setTranscription] = useState<string>('');
-  
-  const [isTranscribing, setIsTranscribing] = useState(false);
-  const [progress, setProgress] = useState<{ status: string; percent?: number }>({ status: 'idle' });
+  const [jobs, setJobs] = useState<TranscriptionJob[]>([]);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  
-  const workerRef = useRef<Worker | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [settings, setSettings] = useState<TranscriptionSettings>(DEFAULT_TRANSCRIPTION_SETTINGS);
+  const [library, setLibrary] = useState<SavedTranscript[]>([]);
+
+  const whisperRef = useRef<WhisperClient | null>(null);
+  // Mirrors activeJobId for async callbacks, which would otherwise see a stale closure
+  const activeJobIdRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const jobsRef = useRef<TranscriptionJob[]>(jobs);
+  const libraryRef = useRef<SavedTranscript[]>(library);
+  const pendingSeekRef = useRef<number | null>(null);
+  const librarySaveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>()); // Pending sync per job id
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
+  const transcriptScrollRef = useRef<HTMLDivElement>(null);
+  const segmentRefs = useRef<(HTMLButtonElement | null)[]>([]);
   const isDark = theme === 'dark';
 
-  // Initialize Worker on Mount
+  jobsRef.current = jobs;
+  libraryRef.current = library;
+  const selectedJob = jobs.find(j => j.id === selectedJobId) || null;
+  const isAudioOnly = !!selectedJob?.file.type.startsWith('audio/') || /\.(mp3|m4a|aac|wav|wave|oga|opus|flac|amr)$/i.test(selectedJob?.file.name || '');
+  const segments = selectedJob?.segments || [];
+  const activeSegmentIndex = findSegmentIndexAt(segments, currentTime);
+  const speakers = listSpeakers(segments);
+
+  // Keep the playing line centered in the transcript panel (without scrolling the page)
   useEffect(() => {
-    if (!workerRef.current) {
-        const blob = new Blob([WORKER_SCRIPT], { type: 'application/javascript' });
-        workerRef.current = new Worker(URL.createObjectURL(blob), { type: 'module' });
-        
-        workerRef.current.onmessage = (e) => {
-            const { status, data, text, error } = e.data;
-            if (status === 'progress') {
-                if (data.status === 'progress') {
-                    // Model downloading progress
-                    setProgress({ status: 'downloading', percent: data.progress });
-                } else if (data.status === 'initiate') {
-                     setProgress({ status: 'initializing' });
-                }
-            } else if (status === 'complete') {
-                setTranscription(text);
-                setIsTranscribing(false);
-                setProgress({ status: 'idle' });
-            } else if (status === 'error') {
-                setError(error || "Transcription failed.");
-                setIsTranscribing(false);
-                setProgress({ status: 'idle' });
-            }
-        };
+    const container = transcriptScrollRef.current;
+    const line = segmentRefs.current[activeSegmentIndex];
+    if (!container || !line) return;
+    container.scrollTo({
+        top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+        behavior: 'smooth'
+    });
+  }, [activeSegmentIndex]);
+
+  // Load Engine Settings
+  useEffect(() => {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (stored) {
+      try {
+        setSettings({ ...DEFAULT_TRANSCRIPTION_SETTINGS, ...JSON.parse(stored) });
+      } catch (e) { console.error("Failed to load transcriber settings"); }
     }
+  }, []);
+
+  // Load Transcript Library
+  useEffect(() => {
+    idbGetAll<SavedTranscript>(STORES.transcripts)
+      .then(entries => setLibrary(entries.sort((a, b) => b.createdAt - a.createdAt)))
+      .catch(err => setError(`Transcript library unavailable: ${err?.message || 'IndexedDB is blocked in this browser.'}`));
+    // Write out edits still waiting on their debounce instead of dropping them
+    return () => {
+      librarySaveTimersRef.current.forEach((timer, jobId) => {
+        clearTimeout(timer);
+        syncLibraryEntry(jobId);
+      });
+    };
+  }, []);
+
+  // The library only reflects writes that landed, so a full disk can't show a transcript as saved
+  const saveToLibrary = (entry: SavedTranscript) => {
+    idbPut(STORES.transcripts, entry)
+      .then(() => setLibrary(prev => [entry, ...prev.filter(e => e.id !== entry.id)]))
+      .catch(async err => setError(await describeStorageError(err, `Couldn't save "${entry.fileName}" to the library`)));
+  };
+
+  const deleteFromLibrary = (id: string) => {
+    idbDelete(STORES.transcripts, id)
+      .then(() => setLibrary(prev => prev.filter(e => e.id !== id)))
+      .catch(async err => setError(await describeStorageError(err, "Couldn't delete from the library")));
+  };
+
+  const updateSettings = (next: TranscriptionSettings) => {
+    setSettings(next);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  };
+
+  const updateJob = (id: string, patch: Partial<TranscriptionJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const releaseActiveJob = (id: string) => {
+    if (activeJobIdRef.current !== id) return;
+    activeJobIdRef.current = null;
+    abortRef.current = null;
+    setActiveJobId(null);
+  };
+
+  const spawnWhisper = () => {
+    whisperRef.current?.terminate();
+    whisperRef.current = createWhisperClient();
+  };
+
+  // Initialize Worker on Mount
+  useEffect(() => {
+    spawnWhisper();
     return () => {
-        workerRef.current?.terminate();
+        abortRef.current?.abort();
+        whisperRef.current?.terminate();
+        whisperRef.current = null;
     };
   }, []);
 
-  const getAudioData = async (file: File): Promise<Float32Array> => {
-      const arrayBuffer = await file.arrayBuffer();
-      const audioContext = new AudioContext({ sampleRate: 16000 }); // Whisper expects 16kHz
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      return audioBuffer.getChannelData(0); // Use left channel
+  // Release preview URLs when leaving the page
+  useEffect(() => {
+    return () => jobsRef.current.forEach(job => URL.revokeObjectURL(job.url));
+  }, []);
+
+  // Whisper path: decode the file in windows and transcribe each one in the worker
+  const transcribeLocally = async (job: TranscriptionJob, duration: number | null, signal: AbortSignal, isCurrent: () => boolean): Promise<TranscriptionResult | null> => {
+    // Settings are captured when the job starts, so edits only affect later jobs
+    const model = getWhisperModelId(settings);
+    const { language, task, channel, diarize } = settings;
+    const clusterer = diarize ? createSpeakerClusterer() : null;
+
+    const onProgress = (progress: WhisperProgress) => {
+        if (!isCurrent()) return;
+        if (progress.status === 'progress') {
+            // Model downloading progress
+            updateJob(job.id, { stage: 'downloading', percent: progress.progress });
+        } else if (progress.status === 'initiate') {
+            updateJob(job.id, { stage: 'initializing', percent: undefined });
+        } else if (progress.status === 'ready') {
+            updateJob(job.id, { stage: 'transcribing', percent: undefined });
+        }
+    };
+
+    let transcribed: TranscriptSegment[] = [];
+
+    // Each window is transcribed as soon as it's decoded, and its lines are
+    // appended right away so long recordings fill in progressively
+    for await (const audioWindow of streamAudioWindows(job.file, { duration, windowSeconds: WINDOW_SECONDS, channel, signal })) {
+        if (!isCurrent() || !whisperRef.current) return null;
+        const windowEnd = audioWindow.offset + audioWindow.samples.length / WHISPER_SAMPLE_RATE;
+        updateJob(job.id, { stage: 'transcribing', percent: duration ? (audioWindow.offset / duration) * 100 : undefined });
+
+        const windowSegments = await whisperRef.current.transcribe({ audio: audioWindow.samples, offset: audioWindow.offset, model, language, task, diarize }, onProgress);
+        if (!isCurrent()) return null;
+
+        // Speakers are clustered across the whole job so numbering stays stable between windows
+        const labeled = windowSegments.map(({ embedding, ...segment }): TranscriptSegment =>
+            clusterer ? { ...segment, speaker: clusterer.assign(embedding) } : segment
+        );
+        transcribed = [...transcribed, ...labeled];
+        updateJob(job.id, {
+            stage: 'transcribing',
+            segments: transcribed,
+            percent: duration ? Math.min(100, (windowEnd / duration) * 100) : undefined
+        });
+    }
+    return { segments: transcribed, speakerNames: {} };
+  };
+
+  // Gemini path: upload the whole file inline and take its labeled lines as-is
+  const transcribeInCloud = async (job: TranscriptionJob, signal: AbortSignal, isCurrent: () => boolean): Promise<TranscriptionResult | null> => {
+    if (!job.file.type) {
+        throw new Error("Couldn't tell this file's format for the cloud engine. Use Local Whisper instead.");
+    }
+    const base64 = await fileToBase64(job.file);
+    if (!isCurrent()) return null;
+
+    updateJob(job.id, { stage: 'transcribing' });
+    const result = await transcribeVideo(base64, job.file.type, signal);
+    if (!isCurrent()) return null;
+    updateJob(job.id, { segments: result.segments, speakerNames: result.speakerNames });
+    return result;
   };
 
-  const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('video/')) {
-        setError("Please upload a valid video file.");
+  const runJob = async (job: TranscriptionJob) => {
+    const abort = new AbortController();
+    activeJobIdRef.current = job.id;
+    abortRef.current = abort;
+    setActiveJobId(job.id);
+
+    const choice = resolveTranscriptionEngine(settings.engine, job.file);
+    updateJob(job.id, {
+        status: 'processing',
+        stage: choice.engine === 'cloud' ? 'uploading' : 'extracting',
+        percent: undefined,
+        error: undefined,
+        segments: [],
+        speakerNames: {},
+        engine: choice.engine,
+        engineReason: choice.reason
+    });
+    const isCurrent = () => activeJobIdRef.current === job.id;
+
+    try {
+        if (choice.error) throw new Error(choice.error);
+        const duration = await readMediaDuration(job.file);
+        const result = choice.engine === 'cloud'
+            ? await transcribeInCloud(job, abort.signal, isCurrent)
+            : await transcribeLocally(job, duration, abort.signal, isCurrent);
+
+        if (!result || !isCurrent()) return;
+        updateJob(job.id, { status: 'done', stage: undefined, percent: undefined });
+        releaseActiveJob(job.id);
+        saveToLibrary({
+            id: job.id,
+            fileName: job.file.name,
+            fileSize: job.file.size,
+            duration,
+            engine: choice.engine,
+            segments: result.segments,
+            speakerNames: result.speakerNames,
+            createdAt: Date.now()
+        });
+    } catch (err: any) {
+        if (!isCurrent()) return; // Cancelled: the rejection is expected
+        updateJob(job.id, { status: 'error', stage: undefined, percent: undefined, error: err?.message || "Transcription failed." });
+        releaseActiveJob(job.id);
+    }
+  };
+
+  // Queue Runner: process one job at a time through the shared worker
+  useEffect(() => {
+    if (!isQueueRunning || activeJobId) return;
+    const next = jobs.find(job => job.status === 'queued');
+    if (!next) {
+        setIsQueueRunning(false);
         return;
     }
-    setError(null);
-    setVideoFile(file);
-    setVideoUrl(URL.createObjectURL(file));
-    setTranscription('');
-    setProgress({ status: 'idle' });
+    runJob(next);
+  }, [jobs, isQueueRunning, activeJobId]);
+
+  const addFiles = (files: File[]) => {
+    const media = files.filter(isTranscribableFile);
+    const skipped = files.length - media.length;
+    setError(skipped > 0 ? `Skipped ${skipped} file${skipped > 1 ? 's' : ''} that ${skipped > 1 ? 'are' : 'is'} not a valid video or audio file.` : null);
+    if (media.length === 0) return;
+
+    const newJobs: TranscriptionJob[] = media.map((file, idx) => ({
+        id: `${Date.now()}-${idx}-${file.name}`,
+        file,
+        url: URL.createObjectURL(file),
+        status: 'queued',
+        segments: [],
+        speakerNames: {}
+    }));
+    setJobs(prev => [...prev, ...newJobs]);
+    if (!selectedJobId) setSelectedJobId(newJobs[0].id);
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -123,52 +381,123 @@ export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) =>
       e.stopPropagation();
   };
 
-  const onDrop = (e: React.DragEvent) => {
+  const onDrop = async (e: React.DragEvent) => {
       e.preventDefault();
       e.stopPropagation();
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-          handleFileSelect(e.dataTransfer.files[0]);
-      }
+      addFiles(await collectDroppedFiles(e.dataTransfer));
   };
 
-  const handleTranscribe = async () => {
-      if (!videoFile || !workerRef.current) return;
-      
-      setIsTranscribing(true);
-      setError(null);
-      setProgress({ status: 'processing' });
-      
-      try {
-          const audioData = await getAudioData(videoFile);
-          workerRef.current.postMessage({ audio: audioData });
-      } catch (err: any) {
-          setError("Failed to extract audio. The file might be corrupted.");
-          setIsTranscribing(false);
+  const handleOpenJob = (job: TranscriptionJob) => {
+      setSelectedJobId(job.id);
+      setCurrentTime(0);
+  };
+
+  const handleCancelJob = (job: TranscriptionJob) => {
+      if (job.status === 'processing') {
+          // The pipeline can't be interrupted mid-run, so restart the worker.
+          // Model weights stay in the browser cache, so the next job reloads quickly.
+          // Cloud requests stop through the abort signal alone.
+          abortRef.current?.abort();
+          releaseActiveJob(job.id);
+          if (job.engine !== 'cloud') spawnWhisper();
       }
+      updateJob(job.id, { status: 'cancelled', stage: undefined, percent: undefined });
   };
 
-  const handleDeleteVideo = () => {
-      if (videoUrl) URL.revokeObjectURL(videoUrl);
-      setVideoFile(null);
-      setVideoUrl(null);
-      setTranscription('');
-      setError(null);
+  const handleRetryJob = (job: TranscriptionJob) => {
+      updateJob(job.id, { status: 'queued', error: undefined, segments: [], speakerNames: {}, stage: undefined, percent: undefined });
+      setIsQueueRunning(true);
+  };
+
+  const handleDeleteJob = (job: TranscriptionJob) => {
+      if (job.status === 'processing') handleCancelJob(job);
+      URL.revokeObjectURL(job.url);
+      const remaining = jobs.filter(j => j.id !== job.id);
+      setJobs(remaining);
+      if (selectedJobId === job.id) {
+          setSelectedJobId(remaining[0]?.id || null);
+          setCurrentTime(0);
+      }
       if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   const handleDeleteTranscription = () => {
-      setTranscription('');
+      if (!selectedJob) return;
+      updateJob(selectedJob.id, { segments: [] });
+      scheduleLibrarySync(selectedJob.id);
+  };
+
+  const syncLibraryEntry = (jobId: string) => {
+      librarySaveTimersRef.current.delete(jobId);
+      const entry = libraryRef.current.find(e => e.id === jobId);
+      const job = jobsRef.current.find(j => j.id === jobId);
+      if (entry && job) saveToLibrary({ ...entry, segments: job.segments, speakerNames: job.speakerNames });
+  };
+
+  // Carry corrections and renames into the saved copy once typing settles. Each job
+  // debounces on its own, so switching to another job never cancels a pending save.
+  const scheduleLibrarySync = (jobId: string) => {
+      const timers = librarySaveTimersRef.current;
+      const pending = timers.get(jobId);
+      if (pending) clearTimeout(pending);
+      timers.set(jobId, setTimeout(() => syncLibraryEntry(jobId), 500));
+  };
+
+  const handleRenameSpeaker = (speaker: number, name: string) => {
+      if (!selectedJob) return;
+      updateJob(selectedJob.id, { speakerNames: { ...selectedJob.speakerNames, [speaker]: name } });
+      scheduleLibrarySync(selectedJob.id);
+  };
+
+  const handleEditSegments = (edited: TranscriptSegment[]) => {
+      if (!selectedJob) return;
+      updateJob(selectedJob.id, { segments: edited });
+      scheduleLibrarySync(selectedJob.id);
+  };
+
+  // Library hits play from the queue when the same file is loaded there
+  const handleLibraryJump = (entry: SavedTranscript, segment: TranscriptSegment): boolean => {
+      const job = jobs.find(j => j.file.name === entry.fileName && j.file.size === entry.fileSize);
+      if (!job) return false;
+      if (job.id === selectedJobId && mediaRef.current) {
+          mediaRef.current.currentTime = segment.start;
+          setCurrentTime(segment.start);
+          mediaRef.current.play().catch(() => { /* autoplay may be blocked; seeking still applies */ });
+      } else {
+          // The player remounts for the new selection; seek once it has metadata
+          pendingSeekRef.current = segment.start;
+          setSelectedJobId(job.id);
+          setCurrentTime(segment.start);
+      }
+      return true;
+  };
+
+  const handleMediaLoaded = (e: React.SyntheticEvent<HTMLMediaElement>) => {
+      if (pendingSeekRef.current === null) return;
+      e.currentTarget.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
   };
 
   const handleCopy = () => {
-      navigator.clipboard.writeText(transcription);
+      navigator.clipboard.writeText(segmentsToText(segments, selectedJob?.speakerNames));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleSeek = (segment: TranscriptSegment) => {
+      const media = mediaRef.current;
+      if (!media) return;
+      media.currentTime = segment.start;
+      setCurrentTime(segment.start);
+      media.play().catch(() => { /* autoplay may be blocked; seeking still applies */ });
+  };
+
+  const queuedCount = jobs.filter(job => job.status === 'queued').length;
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+
   return (
     <div className={`flex flex-col h-full ${isDark ? 'bg-[#09090b]' : 'bg-slate-50'}`}>
-        
+
         {/* Header */}
         <header className={`h-16 flex items-center justify-between px-6 border-b metallic-surface flex-shrink-0 ${isDark ? 'border-zinc-800' : 'border-slate-300 bg-white'}`}>
             <h2 className={`text-sm font-bold tracking-widest uppercase flex items-center gap-2 ${isDark ? 'text-zinc-100' : 'text-slate-900'}`}>
@@ -176,106 +505,167 @@ export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) =>
                 Video<span className="text-zinc-500">_Transcriber</span>
             </h2>
              <div className="flex items-center gap-2 text-[10px] font-mono opacity-50">
-                <Cpu className="w-3 h-3" />
-                <span>CLIENT_SIDE ENGINE</span>
+                {settings.engine === 'local' ? <Cpu className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                <span>{settings.engine === 'local' ? 'CLIENT_SIDE ENGINE' : settings.engine === 'cloud' ? 'CLOUD ENGINE' : 'AUTO ENGINE'}</span>
              </div>
         </header>
 
         <div className="flex-1 overflow-y-auto p-6 md:p-8">
             <div className="max-w-5xl mx-auto space-y-8">
-                
-                {/* Upload / Video Area */}
+
+                <TranscriptionSettingsPanel
+                    settings={settings}
+                    onChange={updateSettings}
+                    disabled={isQueueRunning}
+                    theme={theme}
+                />
+
+                {/* Upload / Queue Area */}
                 <div className="space-y-4">
-                    {!videoFile ? (
-                        <div 
-                            onDragOver={onDragOver}
-                            onDrop={onDrop}
-                            onClick={() => fileInputRef.current?.click()}
-                            className={`
-                                relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all group
-                                ${isDark 
-                                    ? 'border-zinc-800 bg-[#0c0c0e] hover:border-red-600 hover:bg-zinc-900' 
-                                    : 'border-slate-300 bg-white hover:border-red-500 hover:bg-slate-50'
-                                }
-                            `}
-                        >
-                            <input 
-                                type="file" 
-                                ref={fileInputRef} 
-                                className="hidden" 
-                                accept="video/*" 
-                                onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
-                            />
+                    <div
+                        onDragOver={onDragOver}
+                        onDrop={onDrop}
+                        onClick={() => fileInputRef.current?.click()}
+                        className={`
+                            relative border-2 border-dashed rounded-xl text-center cursor-pointer transition-all group
+                            ${jobs.length === 0 ? 'p-12' : 'p-5'}
+                            ${isDark
+                                ? 'border-zinc-800 bg-[#0c0c0e] hover:border-red-600 hover:bg-zinc-900'
+                                : 'border-slate-300 bg-white hover:border-red-500 hover:bg-slate-50'
+                            }
+                        `}
+                    >
+                        <input
+                            type="file"
+                            ref={fileInputRef}
+                            className="hidden"
+                            accept="video/*,audio/*"
+                            multiple
+                            onChange={(e) => e.target.files && addFiles(Array.from(e.target.files))}
+                        />
+                        {jobs.length === 0 ? (
                             <div className="flex flex-col items-center gap-4">
                                 <div className={`p-4 rounded-full ${isDark ? 'bg-zinc-900 group-hover:bg-black' : 'bg-slate-100 group-hover:bg-white'} transition-colors`}>
                                     <UploadCloud className={`w-8 h-8 ${isDark ? 'text-zinc-500 group-hover:text-red-500' : 'text-slate-400 group-hover:text-red-600'}`} />
                                 </div>
                                 <div>
-                                    <h3 className={`font-bold text-lg ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>Click or Drag Video Here</h3>
-                                    <p className={`text-xs mt-1 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>Unlimited duration • Local processing</p>
+                                    <h3 className={`font-bold text-lg ${isDark ? 'text-zinc-200' : 'text-slate-800'}`}>Click or Drag Video or Audio Here</h3>
+                                    <p className={`text-xs mt-1 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>{settings.engine === 'cloud' ? `Up to ${CLOUD_LIMIT_LABEL} per file` : 'Unlimited duration'} • Multiple files or a whole folder • {settings.engine === 'local' ? 'Local processing' : settings.engine === 'cloud' ? 'Gemini cloud processing' : 'Cloud when it fits, local otherwise'}</p>
                                 </div>
                             </div>
+                        ) : (
+                            <div className={`flex items-center justify-center gap-3 text-xs font-bold uppercase tracking-wider ${isDark ? 'text-zinc-500 group-hover:text-zinc-300' : 'text-slate-500 group-hover:text-slate-800'}`}>
+                                <UploadCloud className="w-4 h-4" /> Add More Clips
+                            </div>
+                        )}
+                    </div>
+
+                    {jobs.length > 0 && (
+                        <div className={`rounded-xl overflow-hidden border ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200 shadow-sm'}`}>
+                            <div className={`px-4 py-3 border-b flex items-center justify-between ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-slate-50 border-slate-200'}`}>
+                                <h3 className={`text-xs font-bold uppercase tracking-widest flex items-center gap-2 ${isDark ? 'text-zinc-400' : 'text-slate-600'}`}>
+                                    <ListVideo className="w-4 h-4" /> Queue
+                                    <span className="font-mono font-normal opacity-60">{doneCount}/{jobs.length} done</span>
+                                </h3>
+                                <button
+                                    onClick={() => setIsQueueRunning(true)}
+                                    disabled={isQueueRunning || queuedCount === 0}
+                                    className={`
+                                        px-5 py-2 rounded-lg text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-all
+                                        ${isQueueRunning || queuedCount === 0
+                                            ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed'
+                                            : 'bg-red-600 hover:bg-red-700 text-white shadow-lg shadow-red-900/20'
+                                        }
+                                    `}
+                                >
+                                    {isQueueRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                                    {isQueueRunning ? 'Processing...' : `Start Queue${queuedCount > 0 ? ` (${queuedCount})` : ''}`}
+                                </button>
+                            </div>
+                            <div className={`max-h-[320px] overflow-y-auto custom-scrollbar divide-y ${isDark ? 'divide-zinc-800' : 'divide-slate-100'}`}>
+                                {jobs.map(job => (
+                                    <QueueRow
+                                        key={job.id}
+                                        job={job}
+                                        isSelected={job.id === selectedJobId}
+                                        isDark={isDark}
+                                        onOpen={() => handleOpenJob(job)}
+                                        onCancel={() => handleCancelJob(job)}
+                                        onRetry={() => handleRetryJob(job)}
+                                        onDelete={() => handleDeleteJob(job)}
+                                    />
+                                ))}
+                            </div>
                         </div>
-                    ) : (
+                    )}
+
+                    {selectedJob && (
                         <div className={`rounded-xl overflow-hidden border shadow-2xl ${isDark ? 'bg-black border-zinc-800' : 'bg-white border-slate-200'}`}>
                             {/* Video Player Header */}
                             <div className={`px-4 py-3 border-b flex items-center justify-between ${isDark ? 'bg-zinc-900 border-zinc-800' : 'bg-slate-50 border-slate-200'}`}>
                                 <div className="flex items-center gap-3 overflow-hidden">
-                                    <Video className="w-4 h-4 text-red-500 flex-shrink-0" />
-                                    <span className={`text-xs font-mono truncate ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{videoFile.name}</span>
+                                    {isAudioOnly
+                                        ? <Music className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                        : <Video className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                                    <span className={`text-xs font-mono truncate ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>{selectedJob.file.name}</span>
                                 </div>
-                                <button 
-                                    onClick={handleDeleteVideo}
+                                <button
+                                    onClick={() => handleDeleteJob(selectedJob)}
                                     className="p-1.5 rounded hover:bg-red-500/10 text-zinc-500 hover:text-red-500 transition-colors"
-                                    title="Remove Video"
+                                    title="Remove File"
                                 >
                                     <Trash2 className="w-4 h-4" />
                                 </button>
                             </div>
-                            
-                            {/* Video Player */}
-                            <div className="relative bg-black aspect-video flex items-center justify-center">
-                                {videoUrl && (
-                                    <video 
-                                        src={videoUrl} 
-                                        controls 
-                                        className="w-full h-full max-h-[500px]" 
+
+                            {/* Media Player */}
+                            {isAudioOnly ? (
+                                <div className={`px-4 py-6 ${isDark ? 'bg-zinc-950' : 'bg-slate-100'}`}>
+                                    <audio
+                                        key={selectedJob.id}
+                                        ref={(el) => { mediaRef.current = el; }}
+                                        src={selectedJob.url}
+                                        controls
+                                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                        onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                        onLoadedMetadata={handleMediaLoaded}
+                                        className="w-full"
                                     />
-                                )}
-                            </div>
+                                </div>
+                            ) : (
+                                <div className="relative bg-black aspect-video flex items-center justify-center">
+                                    <video
+                                        key={selectedJob.id}
+                                        ref={(el) => { mediaRef.current = el; }}
+                                        src={selectedJob.url}
+                                        controls
+                                        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                        onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                                        onLoadedMetadata={handleMediaLoaded}
+                                        className="w-full h-full max-h-[500px]"
+                                    />
+                                </div>
+                            )}
 
-                            {/* Actions Bar */}
+                            {/* Details Bar */}
                             <div className={`p-4 flex items-center justify-between ${isDark ? 'bg-zinc-900' : 'bg-white'}`}>
                                 <div className="text-[10px] font-mono opacity-50 flex flex-col gap-0.5">
-                                    <span>SIZE: {(videoFile.size / (1024 * 1024)).toFixed(2)} MB</span>
-                                    <span>TYPE: {videoFile.type.split('/')[1]?.toUpperCase()}</span>
-                                </div>
-                                <div className="flex items-center gap-3">
-                                    <button
-                                        onClick={handleTranscribe}
-                                        disabled={isTranscribing}
-                                        className={`
-                                            px-6 py-2 rounded-lg text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-all
-                                            ${isTranscribing 
-                                                ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed' 
-                                                : 'bg-red-600 hover:bg-red-700 text-white shadow-lg shadow-red-900/20'
-                                            }
-                                        `}
-                                    >
-                                        {isTranscribing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Cpu className="w-4 h-4" />}
-                                        {isTranscribing ? 'Processing...' : 'Start Local Engine'}
-                                    </button>
+                                    <span>SIZE: {(selectedJob.file.size / (1024 * 1024)).toFixed(2)} MB</span>
+                                    <span>TYPE: {(selectedJob.file.type.split('/')[1] || selectedJob.file.name.split('.').pop())?.toUpperCase()}</span>
                                 </div>
+                                <span className={`text-[10px] font-mono font-bold uppercase ${selectedJob.status === 'error' ? 'text-red-500' : 'opacity-50'}`}>
+                                    {selectedJob.status}
+                                </span>
                             </div>
-                            
+
                             {/* Progress Indicator */}
-                            {isTranscribing && (
+                            {selectedJob.status === 'processing' && (
                                 <div className={`px-4 py-2 text-xs font-mono border-t flex justify-between items-center ${isDark ? 'bg-zinc-950 border-zinc-800 text-zinc-400' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
                                     <span className="flex items-center gap-2">
-                                        {progress.status === 'downloading' && <Download className="w-3 h-3 animate-bounce" />}
-                                        {progress.status === 'downloading' ? 'Downloading Model (One-time)...' : 'Transcribing Audio...'}
+                                        {selectedJob.stage === 'downloading' && <Download className="w-3 h-3 animate-bounce" />}
+                                        {selectedJob.stage ? STAGE_LABELS[selectedJob.stage] : 'Transcribing Audio...'}
                                     </span>
-                                    <span>{progress.percent ? `${progress.percent.toFixed(0)}%` : 'Running...'}</span>
+                                    <span>{selectedJob.percent !== undefined ? `${selectedJob.percent.toFixed(0)}%` : 'Running...'}</span>
                                 </div>
                             )}
                         </div>
@@ -290,9 +680,9 @@ export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) =>
                 </div>
 
                 {/* Transcription Output */}
-                {transcription && (
+                {selectedJob && segments.length > 0 && (
                     <div className="animate-slide-up space-y-6">
-                        
+
                         {/* Original Transcript */}
                         <div className={`rounded-xl border overflow-hidden ${isDark ? 'bg-[#0c0c0e] border-zinc-800' : 'bg-white border-slate-200 shadow-sm'}`}>
                             <div className={`px-6 py-4 border-b flex items-center justify-between ${isDark ? 'border-zinc-800 bg-zinc-900/50' : 'border-slate-200 bg-slate-50'}`}>
@@ -300,17 +690,41 @@ export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) =>
                                     <FileText className="w-4 h-4" /> Transcription Result
                                 </h3>
                                 <div className="flex items-center gap-1">
+                                    <button
+                                        onClick={() => exportCaptions(selectedJob, 'srt')}
+                                        className={`px-2 py-1.5 rounded text-[10px] font-bold font-mono flex items-center gap-1.5 hover:bg-zinc-700/50 transition-colors ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}
+                                        title="Export SubRip Captions"
+                                    >
+                                        <Subtitles className="w-4 h-4" /> SRT
+                                    </button>
+                                    <button
+                                        onClick={() => exportCaptions(selectedJob, 'vtt')}
+                                        className={`px-2 py-1.5 rounded text-[10px] font-bold font-mono flex items-center gap-1.5 hover:bg-zinc-700/50 transition-colors ${isDark ? 'text-zinc-400' : 'text-slate-500'}`}
+                                        title="Export WebVTT Captions"
+                                    >
+                                        <Subtitles className="w-4 h-4" /> VTT
+                                    </button>
+
                                     <div className="w-px h-4 bg-zinc-700/20 mx-1"></div>
 
-                                    <button 
+                                    <button
+                                        onClick={() => setIsEditing(!isEditing)}
+                                        disabled={selectedJob.status !== 'done'}
+                                        className={`p-2 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${isEditing ? 'bg-red-600/20 text-red-500' : isDark ? 'text-zinc-400 hover:bg-zinc-700/50' : 'text-slate-500 hover:bg-zinc-700/50'}`}
+                                        title={isEditing ? 'Done Editing' : 'Edit Transcript'}
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+
+                                    <button
                                         onClick={handleCopy}
                                         className={`p-2 rounded hover:bg-zinc-700/50 transition-colors ${copied ? 'text-green-500' : isDark ? 'text-zinc-400' : 'text-slate-500'}`}
                                         title="Copy Text"
                                     >
                                         {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
                                     </button>
-                                    
-                                    <button 
+
+                                    <button
                                         onClick={handleDeleteTranscription}
                                         className="p-2 rounded hover:bg-red-500/10 text-zinc-500 hover:text-red-500 transition-colors"
                                         title="Clear Transcription"
@@ -319,15 +733,82 @@ export const VideoTranscriber: React.FC<VideoTranscriberProps> = ({ theme }) =>
                                     </button>
                                 </div>
                             </div>
-                            <div className={`p-6 max-h-[500px] overflow-y-auto custom-scrollbar ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>
-                                <div className="markdown-body font-mono text-sm leading-relaxed whitespace-pre-wrap">
-                                    <Markdown>{transcription}</Markdown>
+                            {speakers.length > 0 && (
+                                <div className={`px-6 py-3 border-b flex flex-wrap items-center gap-3 ${isDark ? 'border-zinc-800' : 'border-slate-200'}`}>
+                                    <span className={`text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5 ${isDark ? 'text-zinc-500' : 'text-slate-500'}`}>
+                                        <Users className="w-3.5 h-3.5" /> Speakers
+                                    </span>
+                                    {speakers.map(speaker => (
+                                        <input
+                                            key={speaker}
+                                            type="text"
+                                            value={selectedJob.speakerNames[speaker] ?? ''}
+                                            placeholder={`Speaker ${speaker + 1}`}
+                                            onChange={(e) => handleRenameSpeaker(speaker, e.target.value)}
+                                            className={`w-36 rounded-sm px-2 py-1 text-xs font-mono font-bold outline-none border transition-all ${SPEAKER_COLORS[speaker % SPEAKER_COLORS.length]} ${
+                                                isDark ? 'bg-[#18181b] border-zinc-700 focus:border-red-600 placeholder:text-current placeholder:opacity-70' : 'bg-slate-50 border-slate-300 focus:border-red-600 placeholder:text-current placeholder:opacity-70'
+                                            }`}
+                                            title="Rename speaker"
+                                        />
+                                    ))}
                                 </div>
-                            </div>
+                            )}
+                            {isEditing && selectedJob.status === 'done' ? (
+                                <TranscriptEditor
+                                    key={selectedJob.id}
+                                    segments={segments}
+                                    speakerNames={selectedJob.speakerNames}
+                                    activeIndex={activeSegmentIndex}
+                                    onChange={handleEditSegments}
+                                    onSeek={handleSeek}
+                                    theme={theme}
+                                />
+                            ) : (
+                                <div ref={transcriptScrollRef} className={`relative p-6 max-h-[500px] overflow-y-auto custom-scrollbar ${isDark ? 'text-zinc-300' : 'text-slate-700'}`}>
+                                    <div className="font-mono text-sm leading-relaxed space-y-1">
+                                        {segments.map((segment, idx) => {
+                                            const isActive = idx === activeSegmentIndex;
+                                            return (
+                                                <button
+                                                    key={idx}
+                                                    ref={(el) => { segmentRefs.current[idx] = el; }}
+                                                    onClick={() => handleSeek(segment)}
+                                                    className={`w-full text-left flex gap-4 px-3 py-1.5 rounded border-l-2 transition-colors ${
+                                                        isActive
+                                                            ? isDark ? 'bg-red-900/20 border-red-600 text-zinc-100' : 'bg-red-50 border-red-600 text-slate-900'
+                                                            : isDark ? 'border-transparent hover:bg-zinc-800/50' : 'border-transparent hover:bg-slate-100'
+                                                    }`}
+                                                    title="Jump to this line"
+                                                >
+                                                    <span className={`flex-shrink-0 text-xs pt-0.5 ${isDark ? 'text-red-500/80' : 'text-red-600'}`}>
+                                                        {formatTimecode(segment.start)}
+                                                    </span>
+                                                    <span>
+                                                        {segment.speaker !== undefined && (
+                                                            <span className={`font-bold mr-2 ${SPEAKER_COLORS[segment.speaker % SPEAKER_COLORS.length]}`}>
+                                                                {getSpeakerName(selectedJob.speakerNames, segment.speaker)}:
+                                                            </span>
+                                                        )}
+                                                        {segment.text.trim()}
+                                                    </span>
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
                         </div>
 
                     </div>
                 )}
+
+                {/* Transcript Library */}
+                <TranscriptLibrary
+                    entries={library}
+                    onDelete={deleteFromLibrary}
+                    onJump={handleLibraryJump}
+                    theme={theme}
+                />
             </div>
         </div>
     </div>
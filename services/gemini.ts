@@ -1,6 +1,11 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { GroundingChunk, BotMode, StockVideo } from "../types";
+import { GoogleGenAI, Type, Content, Schema } from "@google/genai";
+import { GroundingChunk, GroundingSupport, StockVideo, TranscriptSegment, TranscriptionResult, CustomBotNode, ChatMessage, FactCheckClaim, ClaimVerdict, ScriptSource, ScriptDocument, ScriptSection, SectionAction } from "../types";
+import { ProtocolId, resolveProtocol, getProtocolInstruction } from "./protocols";
+import { CLOUD_LIMIT_LABEL } from "./transcription";
+import { stripCitations } from "../utils/citations";
+import { toScriptSources } from "../utils/sources";
+import { SECTION_KINDS, parsePartialScript, scriptToMarkdown, sectionToMarkdown, normalizeScriptDocument } from "../utils/scriptDocument";
 
 // VIOLEN AI UPLINK
 const uplinkKey = process.env.API_KEY;
@@ -14,41 +19,31 @@ const VISION_PROTOCOL = 'gemini-3-flash-preview'; // Switched to main V3 Flash p
 interface WebResponse {
   text: string;
   groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  stopped?: boolean; // Aborted by the user; `text` holds what arrived before the stop
 }
 
-const getProtocolInstruction = (mode: BotMode): string => {
-  const currentDate = new Date().toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+export interface StreamOptions {
+  onChunk?: (text: string) => void; // Receives the full text so far on every chunk
+  signal?: AbortSignal;
+}
 
-  return `
-    IDENTITY: VIOLEN AI.
-    STATUS: ONLINE.
-    CURRENT_DATE: ${currentDate}.
-    STRICT_MODE: FACT_CHECK_ENABLED.
-    
-    CORE DIRECTIVE: You are a high-end True Crime and Documentary Script Engine. You function as a "Deep Net" scanner, aggregating data from top-tier journalism, police archives, and community forums.
-    
-    SEARCH PROTOCOL - "FULL SPECTRUM SCAN":
-    1. **TIER 1 NEWS**: Prioritize facts from: New York Times, CNN, Yahoo News, Google News, The Washington Post, USA Today, CNBC, AP News, Reuters.
-    2. **COMMUNITY INTEL**: Scan Reddit (r/TrueCrime, r/UnresolvedMysteries, etc.) for theories, timeline clarifications, and local discussions.
-    3. **ARCHIVES & RECORDS**: For historical queries (e.g., "Murders in the 1980s"), search digitized newspaper archives, police reports, and court documents.
-    
-    CRITICAL RULES:
-    1. **TEMPORAL ACCURACY**: You know today is ${currentDate}. If the user asks for "new" or "current" cases, double-check the event dates. Do not present old cases as new.
-    2. **NO BIAS**: Present the narrative objectively. 
-    3. **NO MISINFORMATION**: If sources conflict (e.g., Reddit vs. Police Report), state the conflict clearly.
-    4. **VISUAL EVIDENCE**: You MUST search for actual photos of the people, places, or evidence involved. Use markdown: \`![Evidence: Description](URL)\`.
-    
-    TONE: Gritty, Professional, Investigative, "YouTube Documentary" Style (e.g. JCS Criminal Psychology, Nexpo, Lemmino).
-  `;
-};
+export interface QueryOptions extends StreamOptions {
+  history?: Content[];     // Earlier turns, oldest first
+  contextSummary?: string; // Digest of turns too old to send verbatim
+  responseSchema?: Schema; // Ask for JSON in this shape; the streamed text is then raw JSON
+}
 
 export const queryWebNetwork = async (
   query: string,
   visualData?: string,
   visualMimeType?: string,
-  activeNode: BotMode = 'surfer'
+  activeNode: ProtocolId | CustomBotNode = 'surfer',
+  { onChunk, signal, history = [], contextSummary, responseSchema }: QueryOptions = {}
 ): Promise<WebResponse> => {
-  
+  const protocol = resolveProtocol(activeNode);
+  let streamedText = '';
+
   const executeRequest = async (model: string) => {
     const dataPackets: any[] = [];
     
@@ -63,36 +58,67 @@ export const queryWebNetwork = async (
 
     dataPackets.push({ text: query });
 
-    const response = await internetUplink.models.generateContent({
+    // A question left unanswered (stopped or failed) ends the history on a user turn;
+    // fold the new one into it so turns still alternate
+    const lastTurn = history[history.length - 1];
+    const contents: Content[] = lastTurn?.role === 'user'
+      ? [...history.slice(0, -1), { role: 'user', parts: [...(lastTurn.parts || []), ...dataPackets] }]
+      : [...history, { role: 'user', parts: dataPackets }];
+
+    const stream = await internetUplink.models.generateContentStream({
       model: model,
-      contents: {
-        role: 'user',
-        parts: dataPackets
-      },
+      contents,
       config: {
-        tools: [{ googleSearch: {} }], 
-        systemInstruction: getProtocolInstruction(activeNode)
+        tools: protocol.useSearch ? [{ googleSearch: {} }] : undefined,
+        systemInstruction: contextSummary
+          ? `${getProtocolInstruction(protocol)}\n    EARLIER CONVERSATION (summarized): ${contextSummary}`
+          : getProtocolInstruction(protocol),
+        responseMimeType: responseSchema ? 'application/json' : undefined,
+        responseSchema,
+        abortSignal: signal
       }
     });
 
-    const outputText = response.text || "NO_DATA_RECEIVED_FROM_VIOLEN";
-    const webSources = response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+    // Grounding metadata arrives on the later chunks, so keep the latest one seen
+    let webSources: GroundingChunk[] | undefined;
+    let webSupports: GroundingSupport[] | undefined;
+    try {
+      for await (const chunk of stream) {
+        streamedText += chunk.text || '';
+        const metadata = chunk.candidates?.[0]?.groundingMetadata;
+        if (metadata?.groundingChunks) webSources = metadata.groundingChunks as GroundingChunk[];
+        if (metadata?.groundingSupports) webSupports = metadata.groundingSupports as GroundingSupport[];
+        onChunk?.(streamedText);
+      }
+    } catch (error) {
+      if (signal?.aborted) return { text: streamedText, groundingChunks: webSources, groundingSupports: webSupports, stopped: true };
+      throw error;
+    }
 
-    return { text: outputText, groundingChunks: webSources };
+    return { text: streamedText || "NO_DATA_RECEIVED_FROM_VIOLEN", groundingChunks: webSources, groundingSupports: webSupports };
   };
 
   try {
-    return await executeRequest(CORE_PROTOCOL);
+    return await executeRequest(protocol.model || CORE_PROTOCOL);
   } catch (error: any) {
-    console.warn(`Primary Uplink (${CORE_PROTOCOL}) Failed:`, error.message);
+    if (signal?.aborted) return { text: streamedText, groundingChunks: [], stopped: true };
+    // Keep whatever already streamed rather than replacing it with an error page
+    if (streamedText) {
+      return { text: streamedText + "\n\n_— [Transmission Interrupted]_", groundingChunks: [] };
+    }
+    console.warn(`Primary Uplink (${protocol.model || CORE_PROTOCOL}) Failed:`, error.message);
     const isTrafficError = error.message?.includes('429') || error.status === 429 || error.message?.includes('503');
 
     if (isTrafficError) {
       try {
         const fallbackResponse = await executeRequest(BACKUP_PROTOCOL);
-        fallbackResponse.text += "\n\n_— [Rerouted via Backup Node]_";
+        if (!fallbackResponse.stopped) fallbackResponse.text += "\n\n_— [Rerouted via Backup Node]_";
         return fallbackResponse;
       } catch (fallbackError: any) {
+        if (signal?.aborted) return { text: streamedText, groundingChunks: [], stopped: true };
+        if (streamedText) {
+          return { text: streamedText + "\n\n_— [Transmission Interrupted]_", groundingChunks: [] };
+        }
         return { 
           text: "## SYSTEM OVERLOAD\n\nHigh traffic on all VIOLEN nodes. Please wait 30 seconds.", 
           groundingChunks: [] 
@@ -106,26 +132,100 @@ export const queryWebNetwork = async (
   }
 };
 
+// Condenses older chat turns so long threads stay within the context budget.
+// Folding in the previous summary lets it grow incrementally instead of re-reading everything.
+export const summarizeConversation = async (
+  messages: ChatMessage[],
+  previousSummary?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'USER' : 'VIOLEN'}: ${message.imageUrl ? '[image attached] ' : ''}${message.text}`)
+    .join('\n\n');
+
+  try {
+    const response = await internetUplink.models.generateContent({
+      model: CORE_PROTOCOL,
+      contents: `Summarize this conversation so an assistant can continue it without the original messages.
+        Keep every name, date, place, number, source and open question; drop pleasantries and formatting.
+        Write at most 300 words.
+        ${previousSummary ? `\nSUMMARY OF EVEN EARLIER TURNS:\n${previousSummary}\n` : ''}
+        CONVERSATION:
+        ${transcript}`,
+      config: { abortSignal: signal }
+    });
+    return response.text?.trim() || previousSummary || '';
+  } catch (error) {
+    // Without a summary the thread still works, it just forgets the oldest turns
+    console.warn("Context summarization failed:", error);
+    return previousSummary || '';
+  }
+};
+
+const SECTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: SECTION_KINDS },
+    title: { type: Type.STRING },
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['line', 'cue', 'image'] },
+          speaker: { type: Type.STRING },
+          text: { type: Type.STRING },
+          url: { type: Type.STRING }
+        },
+        required: ['type', 'text']
+      }
+    }
+  },
+  required: ['kind', 'title', 'blocks']
+};
+
+const SCRIPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    sections: { type: Type.ARRAY, items: SECTION_SCHEMA },
+    suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['title', 'sections', 'suggestions']
+};
+
+export interface ScriptReport extends WebResponse {
+  document: ScriptDocument | null; // null when the reply wasn't a script (e.g. an error page); `text` is then shown as-is
+}
+
+// Streams a structured script. `text` and every `onChunk` call carry the Markdown rendering
+// of the document so far, not the raw JSON.
 export const compileWebReport = async (
   topic: string,
   channelName: string,
   wordCount: number,
   tone: string,
-  includeConspiracies: boolean = false
-): Promise<WebResponse> => {
+  includeConspiracies: boolean = false,
+  { onChunk, signal }: StreamOptions = {}
+): Promise<ScriptReport> => {
   
   const today = new Date().toLocaleDateString();
   let conspiracyInstruction = "";
   if (includeConspiracies) {
       conspiracyInstruction = `
       6. **THEORIES & SPECULATION**: 
-         - Create a distinct section at the end titled "## 👁️ ALTERNATIVE THEORIES".
+         - Add a final section of kind "theories".
          - Detail popular conspiracy theories or alternative explanations regarding this case from Reddit/Forums.
          - **CRITICAL**: Clearly label these as theories/speculation.
       `;
   }
 
-  return queryWebNetwork(
+  const toMarkdown = (raw: string) => {
+    const document = parsePartialScript(raw);
+    return document ? scriptToMarkdown(document) : '';
+  };
+
+  const response = await queryWebNetwork(
     `PROTOCOL: SCRIPT_COMPILATION
      TARGET: YouTube True Crime/Documentary Script
      TOPIC: ${topic}
@@ -137,19 +237,196 @@ export const compileWebReport = async (
      INSTRUCTION: 
      1. **DEEP NET RESEARCH**: Search NYT, CNN, AP News, local police reports, and Reddit for comprehensive details.
      2. **VERIFY DATES**: Explicitly state the date of the events in the script to confirm accuracy against today's date (${today}).
-     3. Write a compelling, viral-ready script structure (Hook, Intro, Body, Conclusion).
-     4. **VISUAL EVIDENCE**: Find and insert at least 3-5 relevant images (real photos of subject/location) using markdown format: \`![Evidence: Description](URL)\`.
-     5. Format speaker names clearly as **Narrator:** or **${channelName}:**.
+     3. Write a compelling, viral-ready script as sections of kind "hook", "intro", one or more "body" sections, and "conclusion". Give every section a short, punchy title.
+     4. **VISUAL EVIDENCE**: Add at least 3-5 "image" blocks with the URL of a real photo of the subject or location, and "cue" blocks for B-roll and on-screen directions.
+     5. Spoken text goes in "line" blocks, with "speaker" set to "Narrator" or "${channelName}".
      ${conspiracyInstruction}
      
-     7. **NEXT INVESTIGATIONS**: At the very end of your response, strictly output 3 related but distinct stories or cases that the user might want to cover next. Use this exact format:
-     > SUGGESTION: [Title of Story]
-     > SUGGESTION: [Title of Story]
-     > SUGGESTION: [Title of Story]`,
+     7. **NEXT INVESTIGATIONS**: In "suggestions", list 3 related but distinct stories or cases that the user might want to cover next.`,
     undefined,
     undefined,
-    'creative'
+    'script',
+    { signal, responseSchema: SCRIPT_SCHEMA, onChunk: onChunk && (raw => onChunk(toMarkdown(raw))) }
   );
+
+  const document = parsePartialScript(response.text);
+  return { ...response, text: document ? scriptToMarkdown(document) : response.text, document };
+};
+
+const SECTION_ACTIONS: Record<SectionAction, (tone: string) => string> = {
+  regenerate: () => `Write a fresh take on this section that covers the same part of the story from a stronger angle. Research again if it helps.`,
+  expand: () => `Expand this section to roughly one and a half times its length with more detail, context and evidence. Research again for anything you add.`,
+  shorten: () => `Cut this section to roughly half its length, keeping the essential facts and the strongest lines.`,
+  tone: (tone) => `Rewrite this section in a ${tone} tone. Keep every fact, name and date exactly as they are.`
+};
+
+export type SectionRewrite = Pick<ScriptSection, 'title' | 'blocks'> & Pick<WebResponse, 'groundingChunks' | 'groundingSupports'>;
+
+// Rewrites one section with the rest of the script as context. Only that section comes
+// back, with any new research it was grounded in; the caller decides how to merge it
+// and what to keep as history.
+export const rewriteScriptSection = async (
+  document: ScriptDocument,
+  sectionIndex: number,
+  action: SectionAction,
+  { channelName, tone, signal }: { channelName: string; tone: string; signal?: AbortSignal }
+): Promise<SectionRewrite> => {
+  const section = document.sections[sectionIndex];
+  try {
+    const response = await internetUplink.models.generateContent({
+      model: CORE_PROTOCOL,
+      contents: `PROTOCOL: SECTION_REWRITE
+        CHANNEL: ${channelName}
+
+        FULL SCRIPT (for context only):
+        ${scriptToMarkdown(document)}
+
+        SECTION TO REWRITE (section ${sectionIndex + 1}, kind "${section.kind}"):
+        ${sectionToMarkdown(section)}
+
+        INSTRUCTION: ${SECTION_ACTIONS[action](tone)}
+        It must still flow from the section before it into the section after it. Don't repeat material covered elsewhere in the script.
+        Keep the same speaker names, keep existing image blocks unless they no longer fit, and return only this one section.`,
+      config: {
+        abortSignal: signal,
+        systemInstruction: getProtocolInstruction(resolveProtocol('script')),
+        tools: action === 'regenerate' || action === 'expand' ? [{ googleSearch: {} }] : undefined,
+        responseMimeType: 'application/json',
+        responseSchema: SECTION_SCHEMA
+      }
+    });
+
+    const rewritten = normalizeScriptDocument({ sections: [JSON.parse(response.text || '{}')] }).sections[0];
+    if (rewritten.blocks.length === 0) throw new Error("The rewrite came back empty.");
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    return {
+      title: rewritten.title || section.title,
+      blocks: rewritten.blocks,
+      groundingChunks: metadata?.groundingChunks as GroundingChunk[] | undefined,
+      groundingSupports: metadata?.groundingSupports as GroundingSupport[] | undefined
+    };
+  } catch (error: any) {
+    if (signal?.aborted) throw new Error("Rewrite cancelled.");
+    console.error("Section rewrite failed:", error);
+    throw new Error("Failed to rewrite section. " + (error.message || "Unknown error"));
+  }
+};
+
+// ----------------------------------------------------------------------
+// FACT CHECK: extract the script's checkable claims, then verify each one
+// against a fresh search rather than trusting the script's own grounding
+// ----------------------------------------------------------------------
+const MAX_CLAIMS = 20;
+const VERIFY_CONCURRENCY = 3;
+const CLAIM_KINDS: FactCheckClaim['kind'][] = ['date', 'name', 'charge', 'sentence', 'other'];
+const VERDICTS: ClaimVerdict[] = ['supported', 'contradicted', 'unverified'];
+
+const extractClaims = async (script: string, signal?: AbortSignal): Promise<Pick<FactCheckClaim, 'quote' | 'claim' | 'kind'>[]> => {
+  const response = await internetUplink.models.generateContent({
+    model: CORE_PROTOCOL,
+    contents: `List the checkable factual claims in this script: dates, names and roles of real people, criminal charges, verdicts and sentences, places, and numbers.
+      Skip opinions, narration, theories that are labelled as such, and the "> SUGGESTION:" lines.
+      For each claim give "quote": the shortest exact, verbatim span of the script that states it (copy it character for character, within a single line, without markdown symbols),
+      "claim": the claim as a standalone sentence, and "kind". Return at most ${MAX_CLAIMS} claims, most consequential first.
+
+      SCRIPT:
+      ${stripCitations(script)}`,
+    config: {
+      abortSignal: signal,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            quote: { type: Type.STRING },
+            claim: { type: Type.STRING },
+            kind: { type: Type.STRING, enum: CLAIM_KINDS }
+          },
+          required: ['quote', 'claim', 'kind']
+        }
+      }
+    }
+  });
+
+  const claims = JSON.parse(response.text || '[]');
+  if (!Array.isArray(claims)) throw new Error("Malformed claim list returned.");
+  return claims
+    .filter((item: any) => typeof item?.claim === 'string' && item.claim.trim())
+    .slice(0, MAX_CLAIMS)
+    .map((item: any) => ({
+      quote: typeof item.quote === 'string' ? item.quote.trim() : '',
+      claim: item.claim.trim(),
+      kind: CLAIM_KINDS.includes(item.kind) ? item.kind : 'other'
+    }));
+};
+
+// Gemini 3 models take a response schema alongside search grounding, as in the script calls above
+const VERDICT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: VERDICTS },
+    explanation: { type: Type.STRING }
+  },
+  required: ['verdict', 'explanation']
+};
+
+const verifyClaim = async (claim: string, scriptSources: ScriptSource[], signal?: AbortSignal): Promise<{ verdict: ClaimVerdict; explanation: string; sources: ScriptSource[] }> => {
+  const cited = scriptSources.map(source => `- ${source.title || 'Web Source'}`).join('\n');
+  const response = await internetUplink.models.generateContent({
+    model: CORE_PROTOCOL,
+    contents: `Fact-check this claim from a true crime script using current, reputable sources (court records, police statements, major news outlets).
+      CLAIM: ${claim}
+      ${cited ? `The script's author used these sources:\n${cited}` : ''}
+
+      Give a "verdict" and an "explanation" of one or two sentences; for a contradiction, the explanation gives the correct fact.
+      Use "supported" only if a source confirms every detail, including dates and numbers. Use "unverified" when sources are silent or disagree.`,
+    config: {
+      abortSignal: signal,
+      tools: [{ googleSearch: {} }],
+      responseMimeType: 'application/json',
+      responseSchema: VERDICT_SCHEMA
+    }
+  });
+
+  const sources = toScriptSources(response.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined);
+  try {
+    const result = JSON.parse(response.text || '{}');
+    return {
+      verdict: VERDICTS.includes(result.verdict) ? result.verdict : 'unverified',
+      explanation: typeof result.explanation === 'string' ? result.explanation : '',
+      sources
+    };
+  } catch {
+    return { verdict: 'unverified', explanation: "The verifier's answer couldn't be read.", sources };
+  }
+};
+
+export const factCheckScript = async (
+  script: string,
+  scriptSources: ScriptSource[] = [],
+  signal?: AbortSignal
+): Promise<FactCheckClaim[]> => {
+  try {
+    const claims = await extractClaims(script, signal);
+    const results: FactCheckClaim[] = new Array(claims.length);
+    let next = 0;
+
+    // A few claims at a time keeps us under the search rate limit
+    const worker = async () => {
+      while (next < claims.length) {
+        const idx = next++;
+        const verification = await verifyClaim(claims[idx].claim, scriptSources, signal);
+        results[idx] = { id: String(idx + 1), ...claims[idx], ...verification };
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, claims.length) }, worker));
+    return results;
+  } catch (error: any) {
+    if (signal?.aborted) throw new Error("Fact check cancelled.");
+    console.error("Fact check failed:", error);
+    throw new Error("Failed to fact-check script. " + (error.message || "Unknown error"));
+  }
 };
 
 export const findStockFootage = async (query: string): Promise<StockVideo[]> => {
@@ -195,10 +472,37 @@ export const findStockFootage = async (query: string): Promise<StockVideo[]> =>
   }
 };
 
+// Gemini returns speaker names as text, so they're mapped to indices in order of
+// first appearance. Generic "Speaker N" labels are left unnamed.
+const toTranscriptionResult = (lines: any[]): TranscriptionResult => {
+    const speakerLabels: string[] = [];
+    const speakerNames: Record<number, string> = {};
+
+    const segments: TranscriptSegment[] = lines
+        .filter(line => typeof line?.text === 'string' && line.text.trim())
+        .map(line => {
+            const start = Math.max(0, Number(line.start) || 0);
+            const end = Math.max(start, Number(line.end) || start);
+            const label = typeof line.speaker === 'string' ? line.speaker.trim() : '';
+            if (!label) return { start, end, text: line.text };
+
+            let speaker = speakerLabels.indexOf(label);
+            if (speaker === -1) {
+                speaker = speakerLabels.push(label) - 1;
+                if (label !== `Speaker ${speaker + 1}`) speakerNames[speaker] = label;
+            }
+            return { start, end, text: line.text, speaker };
+        })
+        .sort((a, b) => a.start - b.start);
+
+    return { segments, speakerNames };
+};
+
 export const transcribeVideo = async (
     videoBase64: string, 
-    mimeType: string
-): Promise<string> => {
+    mimeType: string,
+    signal?: AbortSignal
+): Promise<TranscriptionResult> => {
     try {
         const response = await internetUplink.models.generateContent({
             model: VISION_PROTOCOL,
@@ -212,17 +516,37 @@ export const transcribeVideo = async (
                         }
                     },
                     {
-                        text: "Generate a verbatim, highly accurate transcription of the spoken audio in this video. Format the output cleanly with speaker labels if multiple voices are detected (e.g., Speaker 1:, Speaker 2:). If there is no speech, describe the audio environment (e.g., [Silence], [Music playing]). Do not add any introductory or concluding remarks, just the transcription."
+                        text: "Generate a verbatim, highly accurate transcription of the spoken audio in this recording, split into short lines with start and end times in seconds. Label the speaker of every line if multiple voices are detected (e.g., Speaker 1, Speaker 2, or their name if it is stated). If there is no speech, add lines describing the audio environment (e.g., [Silence], [Music playing]) with an empty speaker. Do not add any introductory or concluding remarks."
                     }
                 ]
+            },
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            start: { type: Type.NUMBER },
+                            end: { type: Type.NUMBER },
+                            speaker: { type: Type.STRING },
+                            text: { type: Type.STRING }
+                        },
+                        required: ['start', 'end', 'text']
+                    }
+                }
             }
         });
-        
-        return response.text || "[No transcription generated]";
+
+        const lines = JSON.parse(response.text || '[]');
+        if (!Array.isArray(lines)) throw new Error("Malformed transcript returned.");
+        return toTranscriptionResult(lines);
     } catch (error: any) {
+        if (signal?.aborted) throw new Error("Transcription cancelled.");
         console.error("Transcription failed:", error);
         if (error.message?.includes("413")) {
-            throw new Error("Video file is too large for client-side processing. Please try a smaller file (under 20MB).");
+            throw new Error(`File is too large for the cloud engine. Please try a smaller file (under ${CLOUD_LIMIT_LABEL}) or use Local Whisper.`);
         }
         if (error.message?.includes("404")) {
              throw new Error("Model " + VISION_PROTOCOL + " not found. Please try again later or check API availability.");
@@ -0,0 +1,42 @@
+import { TranscriptionEngine, TranscriptionSettings } from "../types";
+
+// Gemini accepts media inline up to ~20MB per request
+export const CLOUD_MAX_BYTES = 20 * 1024 * 1024;
+// Inline media travels as base64 (4 bytes for every 3), so the file itself must be smaller
+export const CLOUD_MAX_FILE_BYTES = Math.floor(CLOUD_MAX_BYTES / 4) * 3;
+
+export const ENGINE_LABELS: Record<TranscriptionEngine, string> = {
+  local: 'Local Whisper',
+  cloud: 'Gemini Cloud'
+};
+
+export interface EngineChoice {
+  engine: TranscriptionEngine;
+  reason: string;
+  error?: string; // Set when the chosen engine can't take this file
+}
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+export const CLOUD_LIMIT_LABEL = formatMb(CLOUD_MAX_FILE_BYTES);
+
+// Decides which engine runs a file and records why, so every run can explain itself
+export const resolveTranscriptionEngine = (preference: TranscriptionSettings['engine'], file: File): EngineChoice => {
+  const fitsCloud = file.size <= CLOUD_MAX_FILE_BYTES;
+
+  if (preference === 'local') {
+    return { engine: 'local', reason: 'Private: footage never leaves this machine' };
+  }
+  if (preference === 'cloud') {
+    return fitsCloud
+      ? { engine: 'cloud', reason: 'Speaker labels and audio descriptions from Gemini' }
+      : {
+          engine: 'cloud',
+          reason: `Over the ${CLOUD_LIMIT_LABEL} cloud limit`,
+          error: `${formatMb(file.size)} is over the ${CLOUD_LIMIT_LABEL} cloud limit. Switch to Local Whisper, which has no size limit.`
+        };
+  }
+  return fitsCloud
+    ? { engine: 'cloud', reason: `Auto: under ${CLOUD_LIMIT_LABEL}, so the faster cloud pass was used` }
+    : { engine: 'local', reason: `Auto: over the ${CLOUD_LIMIT_LABEL} cloud limit, so it ran locally` };
+};
@@ -0,0 +1,185 @@
+import { TranscriptSegment, TranscriptionSettings } from "../types";
+
+// ----------------------------------------------------------------------
+// WORKER CODE (Inlined to function without external files)
+// ----------------------------------------------------------------------
+const WORKER_SCRIPT = `
+import { pipeline, env, AutoProcessor, WavLMForXVector } from 'https://cdn.jsdelivr.net/npm/@xenova/transformers@2.16.0';
+
+// Configure to load from CDN
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+class AudioTranscriber {
+  // One pipeline per model id, so switching models never reuses the wrong weights.
+  // Pending loads are cached too, so back-to-back requests share a single download.
+  static instances = new Map();
+
+  static getInstance(model, progress_callback = null) {
+    if (!this.instances.has(model)) {
+      const loading = pipeline('automatic-speech-recognition', model, { progress_callback });
+      loading.catch(() => this.instances.delete(model));
+      this.instances.set(model, loading);
+    }
+    return this.instances.get(model);
+  }
+}
+
+// Speaker-verification model used to fingerprint each line's voice for diarization
+class SpeakerEmbedder {
+  static model = 'Xenova/wavlm-base-plus-sv';
+  static instance = null;
+
+  static getInstance(progress_callback = null) {
+    if (!this.instance) {
+      this.instance = Promise.all([
+        AutoProcessor.from_pretrained(this.model, { progress_callback }),
+        WavLMForXVector.from_pretrained(this.model, { progress_callback })
+      ]);
+      this.instance.catch(() => { this.instance = null; });
+    }
+    return this.instance;
+  }
+}
+
+// Lines shorter than this don't carry enough voice to embed reliably; longer ones
+// are trimmed to their middle to keep the model fast
+const MIN_EMBED_SECONDS = 1;
+const MAX_EMBED_SECONDS = 8;
+
+const embedSegments = async (audio, offset, segments, progress_callback) => {
+  const [processor, model] = await SpeakerEmbedder.getInstance(progress_callback);
+  for (const segment of segments) {
+    const start = Math.max(0, Math.floor((segment.start - offset) * 16000));
+    const end = Math.min(audio.length, Math.ceil((segment.end - offset) * 16000));
+    if (end - start < MIN_EMBED_SECONDS * 16000) continue;
+
+    const excess = Math.max(0, end - start - MAX_EMBED_SECONDS * 16000);
+    const slice = audio.slice(start + Math.floor(excess / 2), end - Math.ceil(excess / 2));
+    const inputs = await processor(slice);
+    const { embeddings } = await model(inputs);
+    segment.embedding = Array.from(embeddings.data);
+  }
+};
+
+self.addEventListener('message', async (event) => {
+  const { requestId, audio, offset, model, language, task, diarize } = event.data;
+
+  try {
+    const onProgress = (data) => self.postMessage({ requestId, status: 'progress', data });
+    const transcriber = await AudioTranscriber.getInstance(model, onProgress);
+
+    // English-only checkpoints ('.en') reject language/task hints
+    const isMultilingual = !model.endsWith('.en');
+
+    // Run transcription
+    const output = await transcriber(audio, {
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      return_timestamps: true,
+      ...(isMultilingual ? { language: language || null, task } : {})
+    });
+
+    // Whisper leaves the final chunk open-ended (null end), so close it at the next
+    // chunk's start or at the end of the audio. Times are shifted by the window's offset.
+    const duration = audio.length / 16000;
+    const chunks = output.chunks || [];
+    const segments = chunks.map((chunk, idx) => {
+      const [start, end] = chunk.timestamp;
+      const next = chunks[idx + 1];
+      return {
+        start: offset + (start ?? 0),
+        end: offset + (end ?? (next ? next.timestamp[0] : duration)),
+        text: chunk.text
+      };
+    });
+
+    if (diarize) await embedSegments(audio, offset, segments, onProgress);
+
+    self.postMessage({ requestId, status: 'complete', segments });
+  } catch (error) {
+    self.postMessage({ requestId, status: 'error', error: error.message });
+  }
+});
+`;
+
+export const WHISPER_SAMPLE_RATE = 16000;
+
+export interface WhisperRequest {
+  audio: Float32Array; // 16kHz mono window, transferred to the worker
+  offset: number;      // Seconds added to every returned timestamp
+  model: string;
+  language: string;
+  task: TranscriptionSettings['task'];
+  diarize: boolean;    // Attach a speaker embedding to every line long enough to carry one
+}
+
+export interface WhisperSegment extends TranscriptSegment {
+  embedding?: number[];
+}
+
+export interface WhisperProgress {
+  status: string;
+  progress?: number;
+}
+
+type WhisperMessage =
+  | { requestId: number; status: 'progress'; data: WhisperProgress }
+  | { requestId: number; status: 'complete'; segments: WhisperSegment[] }
+  | { requestId: number; status: 'error'; error?: string };
+
+export interface WhisperClient {
+  transcribe: (request: WhisperRequest, onProgress?: (progress: WhisperProgress) => void) => Promise<WhisperSegment[]>;
+  terminate: () => void;
+}
+
+export const getWhisperModelId = (settings: TranscriptionSettings): string =>
+  `Xenova/whisper-${settings.modelSize}${settings.englishOnly ? '.en' : ''}`;
+
+// Wraps the inline worker in a promise-per-request API. Terminating rejects anything
+// still in flight, which is how a running job gets cancelled.
+export const createWhisperClient = (): WhisperClient => {
+  const blob = new Blob([WORKER_SCRIPT], { type: 'application/javascript' });
+  const worker = new Worker(URL.createObjectURL(blob), { type: 'module' });
+  const pending = new Map<number, {
+    resolve: (segments: WhisperSegment[]) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: WhisperProgress) => void;
+  }>();
+  let nextRequestId = 0;
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (e: MessageEvent<WhisperMessage>) => {
+    const message = e.data;
+    const request = pending.get(message.requestId);
+    if (!request) return;
+
+    if (message.status === 'progress') {
+      request.onProgress?.(message.data);
+    } else if (message.status === 'complete') {
+      pending.delete(message.requestId);
+      request.resolve(message.segments);
+    } else {
+      pending.delete(message.requestId);
+      request.reject(new Error(message.error || "Transcription failed."));
+    }
+  };
+  worker.onerror = (e) => rejectAll(new Error(e.message || "Transcription engine crashed."));
+
+  return {
+    transcribe: (request, onProgress) => new Promise((resolve, reject) => {
+      const requestId = nextRequestId++;
+      pending.set(requestId, { resolve, reject, onProgress });
+      // Hand the window over instead of copying it
+      worker.postMessage({ ...request, requestId }, [request.audio.buffer]);
+    }),
+    terminate: () => {
+      worker.terminate();
+      rejectAll(new Error("Transcription cancelled."));
+    }
+  };
+};
@@ -1,11 +1,14 @@
 
 
+export type AppMode = 'script' | 'chat' | 'transcribe' | 'stock';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
   text: string;
   imageUrl?: string;
   timestamp: number;
+  stopped?: boolean; // Generation was stopped early; text is partial
   sources?: Array<{
     title?: string;
     uri?: string;
@@ -26,19 +29,94 @@ export interface GroundingChunk {
   };
 }
 
+// Ties a span of the response to the chunks backing it. Indices are UTF-8 byte offsets.
+export interface GroundingSupport {
+  segment?: {
+    startIndex?: number;
+    endIndex?: number;
+    text?: string;
+  };
+  groundingChunkIndices?: number[];
+}
+
 export interface ScriptParams {
   topic: string;
   channelName: string;
   wordCount: number;
   tone: string;
+  targetMinutes: number;  // Intended video length; drives the pacing flags
+  wordsPerMinute: number; // Narration speed used for runtime estimates
+}
+
+export interface ScriptSource {
+  title?: string;
+  uri: string;
+}
+
+export type ScriptSectionKind = 'hook' | 'intro' | 'body' | 'conclusion' | 'theories';
+
+export type ScriptBlock =
+  | { type: 'line'; speaker: string; text: string }  // Spoken narration
+  | { type: 'cue'; text: string }                    // B-roll or visual direction, not read aloud
+  | { type: 'image'; text: string; url?: string };   // Evidence image slot; text describes it
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten' | 'tone';
+
+// A replaced take on a section; `note` says how it was produced, e.g. "Original" or "Shortened"
+export interface ScriptSectionVersion {
+  title: string;
+  blocks: ScriptBlock[];
+  note: string;
+  timestamp: number;
+}
+
+export interface ScriptSection {
+  kind: ScriptSectionKind;
+  title: string;
+  blocks: ScriptBlock[];
+  note?: string;                     // How the current take was produced; missing means original
+  history?: ScriptSectionVersion[];  // Earlier takes, oldest first
+}
+
+export interface ScriptDocument {
+  title: string;
+  sections: ScriptSection[];
+  suggestions: string[]; // Follow-up cases to cover next
+}
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'unverified';
+
+export interface FactCheckClaim {
+  id: string;
+  quote: string;       // Verbatim span of the script the claim comes from
+  claim: string;       // The claim restated as a standalone sentence
+  kind: 'date' | 'name' | 'charge' | 'sentence' | 'other';
+  verdict: ClaimVerdict;
+  explanation: string;
+  sources: ScriptSource[];
+}
+
+export interface ScriptRevision {
+  id: string;
+  content: string;
+  timestamp: number;
+  note?: string;
+  sources?: ScriptSource[];
+  factCheck?: FactCheckClaim[];
+  document?: ScriptDocument;
 }
 
+// The top-level content fields always mirror the latest revision
 export interface SavedScript {
   id: string;
   title: string;
   channel: string;
   content: string;
   timestamp: number;
+  sources?: ScriptSource[]; // Web sources the script was grounded in, in citation order
+  factCheck?: FactCheckClaim[];
+  document?: ScriptDocument; // Missing on scripts saved before structured output
+  revisions?: ScriptRevision[]; // Oldest first; missing on scripts saved before revision history
 }
 
 export type BotMode = 
@@ -53,9 +131,82 @@ export type BotMode =
   | 'trailer'     // Video Finder
   | 'ideas';      // Video Idea Generator
 
+// A chat node defined in the UI, e.g. one per channel with its own house style
+export interface CustomBotNode {
+  id: string;
+  label: string;
+  icon: string;  // Key into the node icon set
+  color: string; // Tailwind text color class
+  systemPrompt: string;
+  useSearch: boolean;
+  model: string;
+}
+
 export interface StockVideo {
   title: string;
   url: string;
   source: string;
   thumbnail?: string;
 }
+
+export interface TranscriptSegment {
+  start: number; // seconds
+  end: number;   // seconds
+  text: string;
+  speaker?: number; // Diarized speaker index, names live on the job
+}
+
+export type TranscriptionEngine = 'local' | 'cloud';
+
+// What either engine hands back: timed lines plus any speaker names it already knows
+export interface TranscriptionResult {
+  segments: TranscriptSegment[];
+  speakerNames: Record<number, string>;
+}
+
+// A correction applied on demand, e.g. "detective harris" -> "Det. Harris"
+export interface VocabularyEntry {
+  id: string;
+  from: string;
+  to: string;
+}
+
+// A finished transcript kept in the local library (IndexedDB) after its file is gone
+export interface SavedTranscript {
+  id: string;
+  fileName: string;
+  fileSize: number;        // With the name, lets a re-added file be matched for playback
+  duration: number | null; // Seconds, null when the file didn't report one
+  engine: TranscriptionEngine;
+  segments: TranscriptSegment[];
+  speakerNames: Record<number, string>;
+  createdAt: number;
+}
+
+export type WhisperModelSize = 'tiny' | 'base' | 'small';
+
+export interface TranscriptionSettings {
+  engine: TranscriptionEngine | 'auto'; // 'auto' picks per file based on the cloud size limit
+  modelSize: WhisperModelSize;
+  englishOnly: boolean;             // '.en' checkpoints: more accurate for English, can't translate
+  language: string;                 // ISO 639-1 code, '' for auto-detect
+  task: 'transcribe' | 'translate'; // 'translate' outputs English
+  channel: 'mix' | number;          // Average every channel, or keep one (0 = left, 1 = right)
+  diarize: boolean;                 // Label each line with a detected speaker
+}
+
+export type TranscriptionJobStatus = 'queued' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface TranscriptionJob {
+  id: string;
+  file: File;
+  url: string; // Object URL for the preview player
+  status: TranscriptionJobStatus;
+  stage?: 'extracting' | 'downloading' | 'initializing' | 'uploading' | 'transcribing';
+  engine?: TranscriptionEngine; // Engine used for the latest run
+  engineReason?: string;        // Why that engine was used, shown next to the run
+  percent?: number;
+  segments: TranscriptSegment[];
+  speakerNames: Record<number, string>; // Renamed speakers; unnamed ones show as "Speaker N"
+  error?: string;
+}
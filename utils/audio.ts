@@ -0,0 +1,388 @@
+import { TranscriptionSettings } from '../types';
+import { WHISPER_SAMPLE_RATE } from '../services/whisper';
+
+type ChannelSelection = TranscriptionSettings['channel'];
+
+export interface AudioWindow {
+  samples: Float32Array; // 16kHz mono, owned by the caller (safe to transfer)
+  offset: number;        // Seconds from the start of the file
+}
+
+interface StreamOptions {
+  duration: number | null;
+  windowSeconds: number;
+  channel: ChannelSelection;
+  signal?: AbortSignal;
+}
+
+interface WavInfo {
+  format: 'int' | 'float';
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Above these limits the whole-file decode (compressed bytes + PCM for every channel)
+// no longer fits comfortably in a tab, so audio is captured through playback instead.
+const FULL_DECODE_MAX_SECONDS = 20 * 60;
+const FULL_DECODE_MAX_BYTES = 200 * 1024 * 1024;
+
+// Playback capture runs the media element this many times faster than real time.
+// Pitch correction is disabled and the context rate scaled by the same factor, so every
+// captured sample is still one 16kHz source sample. 4x is the highest rate all major
+// browsers play with sound.
+const CAPTURE_SPEED = 4;
+const MAX_BUFFERED_WINDOWS = 2;
+
+// Windows are cut in the quietest stretch just before the target length so words aren't split
+const QUIET_SEARCH_SECONDS = 3;
+const QUIET_FRAME_SECONDS = 0.05;
+
+// Browsers don't always label media files (e.g. .mkv, some .m4a), so fall back to the extension
+const MEDIA_EXTENSIONS = /\.(mp4|m4v|mov|mkv|webm|avi|mp3|m4a|aac|wav|wave|ogg|oga|opus|flac|amr|3gp)$/i;
+
+const CAPTURE_PROCESSOR = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channel = options.processorOptions.channel;
+    this.batch = new Float32Array(2048);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const picked = this.channel === 'mix' ? null : channels[Math.min(this.channel, channels.length - 1)];
+    for (let i = 0; i < channels[0].length; i++) {
+      let value = 0;
+      if (picked) {
+        value = picked[i];
+      } else {
+        for (let c = 0; c < channels.length; c++) value += channels[c][i];
+        value /= channels.length;
+      }
+      this.batch[this.filled++] = value;
+      if (this.filled === this.batch.length) {
+        this.port.postMessage(this.batch, [this.batch.buffer]);
+        this.batch = new Float32Array(2048);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('violen-capture', CaptureProcessor);
+`;
+
+export const isTranscribableFile = (file: File): boolean =>
+  file.type.startsWith('video/') || file.type.startsWith('audio/') || MEDIA_EXTENSIONS.test(file.name);
+
+export const readMediaDuration = (file: File): Promise<number | null> => {
+  return new Promise(resolve => {
+    const media = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    const finish = (duration: number | null) => {
+      media.removeAttribute('src');
+      media.load();
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    media.preload = 'metadata';
+    // Some containers (e.g. MediaRecorder WebM) report Infinity until fully scanned
+    media.onloadedmetadata = () => finish(Number.isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => finish(null);
+    media.src = url;
+  });
+};
+
+const findQuietCut = (samples: Float32Array, target: number): number => {
+  const frame = Math.round(WHISPER_SAMPLE_RATE * QUIET_FRAME_SECONDS);
+  const searchStart = Math.max(0, target - WHISPER_SAMPLE_RATE * QUIET_SEARCH_SECONDS);
+  let cut = target;
+  let quietest = Infinity;
+  for (let start = searchStart; start + frame <= target; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) energy += samples[i] * samples[i];
+    if (energy < quietest) {
+      quietest = energy;
+      cut = start + Math.round(frame / 2);
+    }
+  }
+  return cut;
+};
+
+const concatSamples = (blocks: Float32Array[], length: number): Float32Array => {
+  const joined = new Float32Array(length);
+  let position = 0;
+  for (const block of blocks) {
+    joined.set(block, position);
+    position += block.length;
+  }
+  return joined;
+};
+
+// Averages every channel (so a voice panned hard to one side isn't lost), or keeps just one
+const selectChannel = (channels: Float32Array[], selection: ChannelSelection): Float32Array => {
+  if (selection !== 'mix') return channels[Math.min(selection, channels.length - 1)];
+  if (channels.length === 1) return channels[0];
+  const mixed = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mixed.length; i++) mixed[i] += channel[i];
+  }
+  for (let i = 0; i < mixed.length; i++) mixed[i] /= channels.length;
+  return mixed;
+};
+
+// Band-limited resampling through the browser's own resampler, rather than naive
+// decimation that would alias 44.1/48kHz audio or stretch 8kHz phone recordings
+const resampleTo16k = async (samples: Float32Array, sampleRate: number): Promise<Float32Array> => {
+  if (sampleRate === WHISPER_SAMPLE_RATE || samples.length === 0) return samples;
+  const length = Math.ceil(samples.length * WHISPER_SAMPLE_RATE / sampleRate);
+  const context = new OfflineAudioContext(1, length, WHISPER_SAMPLE_RATE);
+  const buffer = context.createBuffer(1, samples.length, sampleRate);
+  buffer.copyToChannel(samples, 0);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+};
+
+const readFourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Walks the RIFF chunks for the format and data location. Returns null for anything
+// that isn't plain PCM/float WAV, which then goes through the regular decoders.
+const readWavInfo = async (file: File): Promise<WavInfo | null> => {
+  if (file.size < 44) return null;
+  const riff = new DataView(await file.slice(0, 12).arrayBuffer());
+  if (readFourCC(riff, 0) !== 'RIFF' || readFourCC(riff, 8) !== 'WAVE') return null;
+
+  let format: Omit<WavInfo, 'dataOffset' | 'dataLength'> | null = null;
+  let position = 12;
+  while (position + 8 <= file.size) {
+    const header = new DataView(await file.slice(position, position + 8).arrayBuffer());
+    const id = readFourCC(header, 0);
+    const size = header.getUint32(4, true);
+
+    if (id === 'fmt ') {
+      const body = new DataView(await file.slice(position + 8, position + 8 + Math.min(size, 40)).arrayBuffer());
+      let tag = body.getUint16(0, true);
+      if (tag === 0xFFFE && body.byteLength >= 26) tag = body.getUint16(24, true); // WAVE_FORMAT_EXTENSIBLE sub-format
+      const bitsPerSample = body.getUint16(14, true);
+      const isInt = tag === 1 && [8, 16, 24, 32].includes(bitsPerSample);
+      const isFloat = tag === 3 && [32, 64].includes(bitsPerSample);
+      if (!isInt && !isFloat) return null;
+      format = {
+        format: isInt ? 'int' : 'float',
+        channels: body.getUint16(2, true),
+        sampleRate: body.getUint32(4, true),
+        bitsPerSample
+      };
+    } else if (id === 'data') {
+      if (!format || format.channels === 0) return null;
+      const dataOffset = position + 8;
+      // Recorders that never finalized the header leave the size as 0 or 0xFFFFFFFF
+      const dataLength = size === 0 || size === 0xFFFFFFFF || dataOffset + size > file.size ? file.size - dataOffset : size;
+      return { ...format, dataOffset, dataLength };
+    }
+    position += 8 + size + (size % 2); // Chunks are word aligned
+  }
+  return null;
+};
+
+const decodePcm = (bytes: ArrayBuffer, info: WavInfo): Float32Array[] => {
+  const view = new DataView(bytes);
+  const bytesPerSample = info.bitsPerSample / 8;
+  const frameCount = Math.floor(bytes.byteLength / (bytesPerSample * info.channels));
+  const channels = Array.from({ length: info.channels }, () => new Float32Array(frameCount));
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let c = 0; c < info.channels; c++) {
+      const at = (frame * info.channels + c) * bytesPerSample;
+      let value: number;
+      if (info.format === 'float') {
+        value = bytesPerSample === 4 ? view.getFloat32(at, true) : view.getFloat64(at, true);
+      } else if (bytesPerSample === 1) {
+        value = (view.getUint8(at) - 128) / 128;
+      } else if (bytesPerSample === 2) {
+        value = view.getInt16(at, true) / 32768;
+      } else if (bytesPerSample === 3) {
+        const raw = view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getUint8(at + 2) << 16);
+        value = ((raw << 8) >> 8) / 8388608; // Sign-extend 24-bit
+      } else {
+        value = view.getInt32(at, true) / 2147483648;
+      }
+      channels[c][frame] = value;
+    }
+  }
+  return channels;
+};
+
+// WAV needs no decoder, so read the PCM straight from disk one window at a time
+async function* wavWindows(file: File, info: WavInfo, windowSamples: number, channel: ChannelSelection, signal?: AbortSignal): AsyncGenerator<AudioWindow> {
+  const blockAlign = info.channels * (info.bitsPerSample / 8);
+  const totalFrames = Math.floor(info.dataLength / blockAlign);
+  const framesPerRead = Math.round(windowSamples / WHISPER_SAMPLE_RATE * info.sampleRate);
+  let frame = 0;
+  let emittedLength = 0;
+  let carry = new Float32Array(0);
+
+  while (frame < totalFrames && !signal?.aborted) {
+    const frames = Math.min(framesPerRead, totalFrames - frame);
+    const start = info.dataOffset + frame * blockAlign;
+    const bytes = await file.slice(start, start + frames * blockAlign).arrayBuffer();
+    frame += frames;
+
+    const mono = await resampleTo16k(selectChannel(decodePcm(bytes, info), channel), info.sampleRate);
+    const buffered = concatSamples([carry, mono], carry.length + mono.length);
+    const cut = frame >= totalFrames ? buffered.length : findQuietCut(buffered, buffered.length);
+    yield { samples: buffered.slice(0, cut), offset: emittedLength / WHISPER_SAMPLE_RATE };
+    emittedLength += cut;
+    carry = buffered.slice(cut);
+  }
+}
+
+async function* decodeWindows(file: File, windowSamples: number, channelSelection: ChannelSelection, signal?: AbortSignal): AsyncGenerator<AudioWindow> {
+  const audioContext = new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE }); // Whisper expects 16kHz
+  let channel: Float32Array;
+  try {
+    const audioBuffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+    // decodeAudioData should resample to the context rate, but not every browser honours a custom rate
+    channel = await resampleTo16k(selectChannel(channels, channelSelection), audioBuffer.sampleRate);
+  } catch (error) {
+    throw new Error("Failed to extract audio. The file might be corrupted.");
+  } finally {
+    audioContext.close();
+  }
+
+  let start = 0;
+  while (start < channel.length && !signal?.aborted) {
+    const end = channel.length - start <= windowSamples
+      ? channel.length
+      : start + findQuietCut(channel.subarray(start, start + windowSamples), windowSamples);
+    yield { samples: channel.slice(start, end), offset: start / WHISPER_SAMPLE_RATE };
+    start = end;
+  }
+}
+
+async function* captureWindows(file: File, windowSamples: number, channel: ChannelSelection, signal?: AbortSignal): AsyncGenerator<AudioWindow> {
+  const context = new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE * CAPTURE_SPEED });
+  const media = document.createElement('video');
+  const mediaUrl = URL.createObjectURL(file);
+
+  const ready: AudioWindow[] = [];
+  let pending: Float32Array[] = [];
+  let pendingLength = 0;
+  let emittedLength = 0;
+  let isFlowing = false;
+  let isHeldBack = false;
+  let isFinished = false;
+  let failure: Error | null = null;
+  let wake: (() => void) | null = null;
+  const notify = () => { wake?.(); wake = null; };
+
+  const emitWindow = (isFinal: boolean) => {
+    const buffered = concatSamples(pending, pendingLength);
+    const cut = isFinal ? buffered.length : findQuietCut(buffered, windowSamples);
+    ready.push({ samples: buffered.slice(0, cut), offset: emittedLength / WHISPER_SAMPLE_RATE });
+    emittedLength += cut;
+    pending = cut < buffered.length ? [buffered.slice(cut)] : [];
+    pendingLength = buffered.length - cut;
+
+    // Backpressure: stop decoding while the transcriber is behind
+    if (!isFinal && ready.length >= MAX_BUFFERED_WINDOWS) {
+      isHeldBack = true;
+      media.pause();
+    }
+    notify();
+  };
+
+  try {
+    const processorUrl = URL.createObjectURL(new Blob([CAPTURE_PROCESSOR], { type: 'application/javascript' }));
+    await context.audioWorklet.addModule(processorUrl);
+    URL.revokeObjectURL(processorUrl);
+
+    const source = context.createMediaElementSource(media);
+    const capture = new AudioWorkletNode(context, 'violen-capture', { processorOptions: { channel } });
+    const silence = context.createGain();
+    silence.gain.value = 0; // Keep the graph pulling without playing anything aloud
+    source.connect(capture).connect(silence).connect(context.destination);
+
+    // Only keep samples rendered while the media is actually advancing, otherwise
+    // pauses and buffering stalls would be recorded as silence and shift every timestamp
+    capture.port.onmessage = (e: MessageEvent<Float32Array>) => {
+      if (!isFlowing) return;
+      pending.push(e.data);
+      pendingLength += e.data.length;
+      if (pendingLength >= windowSamples) emitWindow(false);
+    };
+    media.onplaying = () => { isFlowing = true; };
+    media.onpause = media.onwaiting = () => { isFlowing = false; };
+    media.onended = () => {
+      isFlowing = false;
+      if (pendingLength > 0) emitWindow(true);
+      isFinished = true;
+      notify();
+    };
+    media.onerror = () => {
+      failure = new Error("Failed to extract audio. The file might be corrupted.");
+      notify();
+    };
+    signal?.addEventListener('abort', notify);
+
+    media.preservesPitch = false;
+    media.defaultPlaybackRate = CAPTURE_SPEED;
+    media.playbackRate = CAPTURE_SPEED;
+    media.src = mediaUrl;
+    await context.resume();
+    await media.play().catch(() => {
+      throw new Error("The browser blocked audio capture. Click Start again to resume the queue.");
+    });
+
+    while (!signal?.aborted) {
+      const next = ready.shift();
+      if (next) {
+        if (isHeldBack && ready.length < MAX_BUFFERED_WINDOWS) {
+          isHeldBack = false;
+          media.play().catch(() => { /* surfaced through onerror */ });
+        }
+        yield next;
+        continue;
+      }
+      if (failure) throw failure;
+      if (isFinished) return;
+      await new Promise<void>(resolve => { wake = resolve; });
+    }
+  } finally {
+    signal?.removeEventListener('abort', notify);
+    media.pause();
+    media.removeAttribute('src');
+    media.load();
+    URL.revokeObjectURL(mediaUrl);
+    context.close();
+  }
+}
+
+// Yields the file's audio as consecutive 16kHz mono windows, so long recordings never
+// have to be held in memory at once. WAV is read straight from disk; other short files
+// are decoded in one go (fast); long or large ones are captured through accelerated playback.
+export async function* streamAudioWindows(file: File, { duration, windowSeconds, channel, signal }: StreamOptions): AsyncGenerator<AudioWindow> {
+  const windowSamples = Math.round(windowSeconds * WHISPER_SAMPLE_RATE);
+  const wav = await readWavInfo(file);
+  if (wav) {
+    yield* wavWindows(file, wav, windowSamples, channel, signal);
+    return;
+  }
+
+  const fitsInMemory = file.size <= FULL_DECODE_MAX_BYTES && (duration === null || duration <= FULL_DECODE_MAX_SECONDS);
+  yield* fitsInMemory
+    ? decodeWindows(file, windowSamples, channel, signal)
+    : captureWindows(file, windowSamples, channel, signal);
+}
@@ -0,0 +1,67 @@
+import { TranscriptSegment } from '../types';
+import { getSpeakerName } from './diarization';
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+// Formats seconds as HH:MM:SS plus an optional millisecond part ("," for SRT, "." for VTT)
+export const formatTimecode = (seconds: number, msSeparator?: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const base = `${pad(hours)}:${pad(minutes)}:${pad(secs)}`;
+  return msSeparator ? `${base}${msSeparator}${pad(totalMs % 1000, 3)}` : base;
+};
+
+// Caption cues can't be empty or have zero length, so drop blank text and nudge degenerate ranges
+const toCues = (segments: TranscriptSegment[]) =>
+  segments
+    .map(segment => ({ ...segment, text: segment.text.trim() }))
+    .filter(segment => segment.text.length > 0)
+    .map(segment => ({ ...segment, end: Math.max(segment.end, segment.start + 0.5) }));
+
+// "Name: text" when the line has a diarized speaker
+const withSpeaker = (segment: TranscriptSegment, text: string, speakerNames?: Record<number, string>) =>
+  segment.speaker === undefined ? text : `${getSpeakerName(speakerNames, segment.speaker)}: ${text}`;
+
+export const segmentsToText = (segments: TranscriptSegment[], speakerNames?: Record<number, string>): string =>
+  segments
+    .filter(segment => segment.text.trim())
+    .map(segment => `[${formatTimecode(segment.start)}] ${withSpeaker(segment, segment.text.trim(), speakerNames)}`)
+    .join('\n');
+
+export const segmentsToSrt = (segments: TranscriptSegment[], speakerNames?: Record<number, string>): string =>
+  toCues(segments)
+    .map((cue, idx) => `${idx + 1}\n${formatTimecode(cue.start, ',')} --> ${formatTimecode(cue.end, ',')}\n${withSpeaker(cue, cue.text, speakerNames)}`)
+    .join('\n\n') + '\n';
+
+// WebVTT cue text is markup: "&" and "<" start entities and tags, and ">" closes a voice span
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const segmentsToVtt = (segments: TranscriptSegment[], speakerNames?: Record<number, string>): string => {
+  const cues = toCues(segments).map(cue => {
+    // "-->" is reserved inside a WebVTT cue payload; speakers use voice spans
+    const text = escapeVtt(cue.text.replace(/-->/g, '->'));
+    const voice = cue.speaker === undefined ? '' : `<v ${escapeVtt(getSpeakerName(speakerNames, cue.speaker))}>`;
+    return `${formatTimecode(cue.start, '.')} --> ${formatTimecode(cue.end, '.')}\n${voice}${text}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+// Index of the segment playing at `time`, or -1 before the first one. Gaps between
+// segments keep the previous line active so the highlight doesn't flicker.
+export const findSegmentIndexAt = (segments: TranscriptSegment[], time: number): number => {
+  let low = 0;
+  let high = segments.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (segments[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
@@ -0,0 +1,72 @@
+import { Content, Part } from '@google/genai';
+import { ChatMessage } from '../types';
+import { stripCitations } from './citations';
+
+// Rough history budget per request. Text is estimated at ~4 characters per token and
+// each image at Gemini's flat per-image cost; anything older is summarized instead.
+export const CONTEXT_TOKEN_BUDGET = 24000;
+const IMAGE_TOKENS = 258;
+// Older images are re-sent only for the latest few turns to keep request payloads small
+const MAX_HISTORY_IMAGES = 3;
+// Always keep the latest exchange verbatim, even if it alone blows the budget
+const MIN_RECENT_MESSAGES = 2;
+
+export const estimateTokens = (message: ChatMessage): number =>
+  Math.ceil(message.text.length / 4) + (message.imageUrl ? IMAGE_TOKENS : 0);
+
+export interface ContextWindow {
+  recent: ChatMessage[];   // Sent verbatim as multi-turn contents
+  overflow: ChatMessage[]; // Too old for the budget; folded into a summary
+}
+
+export const splitByBudget = (messages: ChatMessage[], budget: number = CONTEXT_TOKEN_BUDGET): ContextWindow => {
+  let used = 0;
+  let cut = messages.length;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(messages[i]);
+    if (messages.length - i > MIN_RECENT_MESSAGES && used + cost > budget) break;
+    used += cost;
+    cut = i;
+  }
+  // Open the window on a user turn so it never starts with an orphaned reply
+  while (cut < messages.length && messages[cut].role !== 'user') cut++;
+  return { recent: messages.slice(cut), overflow: messages.slice(0, cut) };
+};
+
+const dataUrlToPart = (dataUrl: string): Part | null => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.+)$/);
+  return match ? { inlineData: { mimeType: match[1], data: match[2] } } : null;
+};
+
+// Converts chat messages to Gemini contents. Consecutive turns from the same role
+// (e.g. a question whose reply failed) are merged, since turns must alternate.
+export const toContents = (messages: ChatMessage[]): Content[] => {
+  let imagesLeft = MAX_HISTORY_IMAGES;
+  const turns = [...messages].reverse().map(message => {
+    const parts: Part[] = [];
+    if (message.imageUrl) {
+      const image = imagesLeft > 0 ? dataUrlToPart(message.imageUrl) : null;
+      if (image) {
+        parts.push(image);
+        imagesLeft--;
+      } else {
+        parts.push({ text: '[Earlier image omitted]' });
+      }
+    }
+    // Citation markers point at this app's source list, which the model never sees
+    const text = stripCitations(message.text);
+    if (text.trim()) parts.push({ text });
+    return { role: message.role, parts };
+  }).reverse();
+
+  return turns.reduce<Content[]>((contents, turn) => {
+    if (turn.parts.length === 0) return contents;
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.parts = [...(previous.parts || []), ...turn.parts];
+    } else {
+      contents.push(turn);
+    }
+    return contents;
+  }, []);
+};
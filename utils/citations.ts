@@ -0,0 +1,108 @@
+import { GroundingChunk, GroundingSupport } from '../types';
+
+// Citation markers are stored in the text as markdown links, e.g. "...in 1987.[2](#cite-2)"
+const CITATION_LINK = /\[(\d+)\]\(#cite-\d+\)/g;
+const CITE_HREF = /^#cite-(\d+)$/;
+
+export const parseCitationHref = (href?: string): number | null => {
+  const match = href?.match(CITE_HREF);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+// "[2](#cite-2)" -> "[2]", for exports that have a bibliography but no anchors
+export const plainCitations = (text: string): string => text.replace(CITATION_LINK, '[$1]');
+
+export const stripCitations = (text: string): string => text.replace(CITATION_LINK, '');
+
+// 1-based bibliography number for each grounding chunk, in the same order as toScriptSources (./sources).
+// `knownUris` are already numbered 1..n (e.g. the script's sources); new ones continue after them.
+export const citationNumbers = (chunks: GroundingChunk[] = [], knownUris: string[] = []): (number | undefined)[] => {
+  const numbers = new Map<string, number>();
+  knownUris.forEach(uri => numbers.has(uri) || numbers.set(uri, numbers.size + 1));
+  return chunks.map(chunk => {
+    const uri = chunk.web?.uri;
+    if (!uri) return undefined;
+    if (!numbers.has(uri)) numbers.set(uri, numbers.size + 1);
+    return numbers.get(uri);
+  });
+};
+
+// Grounding segments are measured in UTF-8 bytes; JS strings index UTF-16 code units
+const byteToCharOffset = (bytes: Uint8Array, byteOffset: number): number =>
+  new TextDecoder().decode(bytes.slice(0, byteOffset)).length;
+
+const isInsideCodeFence = (text: string, offset: number): boolean =>
+  (text.slice(0, offset).match(/```/g)?.length || 0) % 2 === 1;
+
+const insertMarkers = (text: string, markers: Map<number, Set<number>>): string =>
+  // Insert from the end so earlier offsets stay valid
+  [...markers.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .reduce((annotated, [offset, cited]) => {
+      const links = [...cited].sort((a, b) => a - b).map(n => `[${n}](#cite-${n})`).join('');
+      return annotated.slice(0, offset) + links + annotated.slice(offset);
+    }, text);
+
+const addMarker = (markers: Map<number, Set<number>>, offset: number, cited: number[]) => {
+  const existing = markers.get(offset) || new Set<number>();
+  cited.forEach(n => existing.add(n));
+  markers.set(offset, existing);
+};
+
+const citedNumbers = (support: GroundingSupport, numbers: (number | undefined)[]): number[] =>
+  (support.groundingChunkIndices || []).map(idx => numbers[idx]).filter((n): n is number => n !== undefined);
+
+// Appends numbered markers after each supported span. Numbers match the deduplicated
+// source list, so "[2]" in the text is entry 2 in the Sources panel and bibliography.
+export const annotateCitations = (text: string, chunks: GroundingChunk[] = [], supports: GroundingSupport[] = []): string => {
+  if (supports.length === 0) return text;
+  const numbers = citationNumbers(chunks);
+  const bytes = new TextEncoder().encode(text);
+  const markers = new Map<number, Set<number>>();
+
+  supports.forEach(support => {
+    const end = support.segment?.endIndex;
+    if (end === undefined || end > bytes.length) return;
+    const offset = byteToCharOffset(bytes, end);
+    const cited = citedNumbers(support, numbers);
+    if (cited.length === 0 || isInsideCodeFence(text, offset)) return;
+    addMarker(markers, offset, cited);
+  });
+
+  return insertMarkers(text, markers);
+};
+
+// Segment text taken from a JSON response still carries escapes and quote/brace debris
+const cleanSegmentText = (raw: string): string => {
+  // Keep only the value when the span starts inside a key, e.g. 'text": "It was cold'
+  let text = raw.split(/"\s*:\s*"/).pop() || '';
+  try { text = JSON.parse(`"${text}"`); } catch { /* not a clean JSON string fragment */ }
+  return text.replace(/^[\s"{}[\],:]+|[\s"{}[\],:]+$/g, '');
+};
+
+// For responses that were rendered from structured output: the byte offsets refer to the
+// raw JSON, so each supported span is located in the rendered text by its content instead.
+export const annotateCitationsByText = (
+  text: string,
+  chunks: GroundingChunk[] = [],
+  supports: GroundingSupport[] = [],
+  knownUris: string[] = []
+): string => {
+  const numbers = citationNumbers(chunks, knownUris);
+  const markers = new Map<number, Set<number>>();
+  let cursor = 0;
+
+  supports.forEach(support => {
+    const span = cleanSegmentText(support.segment?.text || '');
+    const cited = citedNumbers(support, numbers);
+    if (!span || cited.length === 0) return;
+    // Supports arrive in document order, so search forward first
+    let start = text.indexOf(span, cursor);
+    if (start === -1) start = text.indexOf(span);
+    if (start === -1) return;
+    cursor = start + span.length;
+    addMarker(markers, cursor, cited);
+  });
+
+  return insertMarkers(text, markers);
+};
@@ -0,0 +1,62 @@
+// Online speaker clustering over x-vector embeddings. Each embedding joins the most
+// similar known speaker, or starts a new one when nobody is close enough. Clustering
+// state lives per job so speaker numbers stay stable across audio windows.
+
+// Cosine similarity above which two lines are treated as the same voice
+const SAME_SPEAKER_THRESHOLD = 0.8;
+
+export interface SpeakerClusterer {
+  // Returns a speaker index. Lines too short to embed inherit the previous speaker.
+  assign: (embedding?: number[] | null) => number;
+}
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+};
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+export const createSpeakerClusterer = (threshold: number = SAME_SPEAKER_THRESHOLD): SpeakerClusterer => {
+  const centroids: number[][] = []; // Running sums of unit embeddings
+  let lastSpeaker = 0;
+
+  return {
+    assign: (embedding) => {
+      if (!embedding || embedding.length === 0) return lastSpeaker;
+      const unit = normalize(embedding);
+
+      let best = -1;
+      let bestScore = -Infinity;
+      centroids.forEach((centroid, idx) => {
+        const score = dot(unit, normalize(centroid));
+        if (score > bestScore) {
+          bestScore = score;
+          best = idx;
+        }
+      });
+
+      if (best === -1 || bestScore < threshold) {
+        centroids.push(unit);
+        best = centroids.length - 1;
+      } else {
+        centroids[best] = centroids[best].map((v, i) => v + unit[i]);
+      }
+
+      lastSpeaker = best;
+      return best;
+    }
+  };
+};
+
+export const getSpeakerName = (speakerNames: Record<number, string> | undefined, speaker: number): string =>
+  speakerNames?.[speaker]?.trim() || `Speaker ${speaker + 1}`;
+
+// Speaker indices in order of first appearance
+export const listSpeakers = (segments: { speaker?: number }[]): number[] => {
+  const seen: number[] = [];
+  segments.forEach(segment => {
+    if (segment.speaker !== undefined && !seen.includes(segment.speaker)) seen.push(segment.speaker);
+  });
+  return seen;
+};
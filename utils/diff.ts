@@ -0,0 +1,83 @@
+export type DiffOpType = 'equal' | 'removed' | 'added';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+export interface DiffRow {
+  left?: DiffOp;  // Older revision
+  right?: DiffOp; // Newer revision
+}
+
+// Classic longest-common-subsequence table; scripts are a few hundred lines at most
+const diffTokens = (before: string[], after: string[]): DiffOp[] => {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', text: before[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: 'removed', text: before[i++] });
+    } else {
+      ops.push({ type: 'added', text: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'removed', text: before[i++] });
+  while (j < m) ops.push({ type: 'added', text: after[j++] });
+  return ops;
+};
+
+// Blank lines only separate paragraphs in Markdown, so they'd just add noise to the diff
+export const diffLines = (before: string, after: string): DiffOp[] =>
+  diffTokens(
+    before.split('\n').filter(line => line.trim()),
+    after.split('\n').filter(line => line.trim())
+  );
+
+// Whitespace is kept as its own token so the pieces join back into the original line
+export const diffWords = (before: string, after: string): DiffOp[] =>
+  diffTokens(before.split(/(\s+)/), after.split(/(\s+)/));
+
+// Lines on opposite sides of a change block are paired up row by row, so an edited
+// line sits beside its old wording instead of below it
+export const toSideBySide = (ops: DiffOp[]): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  let removed: DiffOp[] = [];
+  let added: DiffOp[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'removed') removed.push(op);
+    else if (op.type === 'added') added.push(op);
+    else {
+      flush();
+      rows.push({ left: op, right: op });
+    }
+  });
+  flush();
+  return rows;
+};
+
+export const countChanges = (ops: DiffOp[]) => ({
+  added: ops.filter(op => op.type === 'added').length,
+  removed: ops.filter(op => op.type === 'removed').length
+});
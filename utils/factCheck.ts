@@ -0,0 +1,41 @@
+import { ClaimVerdict, FactCheckClaim } from '../types';
+
+const CLAIM_HREF = /^#claim-(.+)$/;
+
+export const parseClaimHref = (href?: string): string | null => href?.match(CLAIM_HREF)?.[1] ?? null;
+
+// Quotes that cross markdown syntax can't be wrapped in a link without breaking the render
+const isWrappable = (quote: string) => !/[\n[\]*_`#>|]/.test(quote);
+
+// Inside a link's text or URL, or a code fence, another link would nest or leak
+const isInsideMarkup = (text: string, start: number) => {
+  const before = text.slice(0, start);
+  const line = before.slice(before.lastIndexOf('\n') + 1);
+  const openBrackets = (line.match(/\[/g)?.length || 0) - (line.match(/\]/g)?.length || 0);
+  return openBrackets > 0 || /\]\([^)]*$/.test(line) || (before.match(/```/g)?.length || 0) % 2 === 1;
+};
+
+// Wraps the first occurrence of each claim's quote in a "#claim-<id>" link so the viewer
+// can highlight it. Claims whose quote no longer appears (e.g. after an edit) stay unmarked.
+export const highlightClaims = (text: string, claims: FactCheckClaim[] = []): string => {
+  const spans: { start: number; end: number; id: string }[] = [];
+  claims.forEach(claim => {
+    if (!claim.quote || !isWrappable(claim.quote)) return;
+    let start = text.indexOf(claim.quote);
+    // Skip occurrences that overlap a claim already marked or sit inside markup
+    while (start !== -1 && (spans.some(span => start < span.end && start + claim.quote.length > span.start) || isInsideMarkup(text, start))) {
+      start = text.indexOf(claim.quote, start + 1);
+    }
+    if (start !== -1) spans.push({ start, end: start + claim.quote.length, id: claim.id });
+  });
+
+  return spans
+    .sort((a, b) => b.start - a.start)
+    .reduce((marked, span) => `${marked.slice(0, span.start)}[${marked.slice(span.start, span.end)}](#claim-${span.id})${marked.slice(span.end)}`, text);
+};
+
+export const countVerdicts = (claims: FactCheckClaim[]): Record<ClaimVerdict, number> =>
+  claims.reduce(
+    (counts, claim) => ({ ...counts, [claim.verdict]: counts[claim.verdict] + 1 }),
+    { supported: 0, contradicted: 0, unverified: 0 }
+  );
@@ -15,3 +15,44 @@ export const fileToBase64 = (file: File): Promise<string> => {
 export const formatTime = (timestamp: number): string => {
   return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 };
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const element = document.createElement("a");
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  element.href = url;
+  element.download = fileName;
+  document.body.appendChild(element);
+  element.click();
+  document.body.removeChild(element);
+  // Give the browser a tick to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Flattens a drag-and-drop payload into files, walking into any dropped folders
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be grabbed synchronously; the DataTransfer is emptied once the handler yields
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in batches until it yields an empty one
+    while (true) {
+      const batch = await new Promise<FileSystemEntry[]>(resolve => reader.readEntries(resolve, () => resolve([])));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map(readEntry));
+    return nested.flat();
+  };
+
+  const files = await Promise.all(entries.map(readEntry));
+  return files.flat();
+};
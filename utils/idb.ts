@@ -0,0 +1,121 @@
+// Minimal promise wrapper around IndexedDB for records too large for localStorage.
+// Every store is keyed by the record's `id`.
+
+const DB_NAME = 'violen_db';
+const DB_VERSION = 2;
+
+export const STORES = {
+  transcripts: 'transcripts',
+  scripts: 'scripts',
+  chatArchives: 'chat_archives'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // Stores are only ever added, so upgrades just create whatever is missing
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error || new Error("Failed to open local database."));
+      request.onblocked = () => reject(new Error("Local database is open in another tab. Close it and reload."));
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    // Resolve once the transaction commits, so writes are durable when the promise settles
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Local database write was aborted."));
+  });
+};
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  runRequest<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+
+export const idbPut = <T extends { id: string }>(store: StoreName, value: T): Promise<void> =>
+  runRequest<void>(store, 'readwrite', objectStore => objectStore.put(value)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, id: string): Promise<void> =>
+  runRequest<void>(store, 'readwrite', objectStore => objectStore.delete(id)).then(() => undefined);
+
+export const idbPutAll = async <T extends { id: string }>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Local database write was aborted."));
+  });
+};
+
+// One-time move of an array kept under a localStorage key. The key is only removed
+// once every record is committed, so a failed run is simply retried on the next load.
+export const migrateFromLocalStorage = async <T extends { id: string }>(key: string, store: StoreName): Promise<void> => {
+  const stored = localStorage.getItem(key);
+  if (stored === null) return;
+  let records: T[];
+  try {
+    records = JSON.parse(stored);
+  } catch {
+    console.error(`Dropping unreadable ${key} during migration`);
+    localStorage.removeItem(key);
+    return;
+  }
+  if (Array.isArray(records) && records.length > 0) await idbPutAll(store, records);
+  localStorage.removeItem(key);
+};
+
+export const isQuotaError = (err: any) =>
+  err?.name === 'QuotaExceededError' || err?.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+
+export interface StorageUsage {
+  usage: number; // Bytes
+  quota: number; // Bytes
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Turns a failed write into something the user can act on
+export const describeStorageError = async (err: any, action: string): Promise<string> => {
+  if (!isQuotaError(err)) return `${action}: ${err?.message || 'unknown error'}`;
+  const usage = await getStorageUsage().catch(() => null);
+  const used = usage && usage.quota > 0 ? ` (${formatBytes(usage.usage)} of ${formatBytes(usage.quota)} used)` : '';
+  return `${action}: browser storage is full${used}. Delete old archives, or export them first, then try again.`;
+};
@@ -0,0 +1,79 @@
+import { ScriptDocument, ScriptSectionKind } from '../types';
+
+export const DEFAULT_WPM = 150;
+
+// Share of the target runtime each section kind should take. Body sections split
+// whatever the others leave over.
+const SECTION_SHARE: Partial<Record<ScriptSectionKind, number>> = {
+  hook: 0.05,
+  intro: 0.1,
+  conclusion: 0.08,
+  theories: 0.12
+};
+// Viewers decide in the first half-minute; a hook past this loses them regardless of video length
+export const MAX_HOOK_SECONDS = 30;
+// YouTube only allows mid-roll ads on videos at least this long
+export const MID_ROLL_MIN_SECONDS = 8 * 60;
+// How far a section may drift from its share before it's flagged
+const PACE_TOLERANCE = 0.35;
+
+export type SectionPace = 'ok' | 'long' | 'short';
+
+export interface SectionRuntime {
+  index: number;
+  kind: ScriptSectionKind;
+  title: string;
+  words: number;
+  start: number;         // Seconds from the start of the video
+  seconds: number;
+  targetSeconds: number;
+  pace: SectionPace;
+}
+
+export interface ScriptRuntime {
+  sections: SectionRuntime[];
+  totalSeconds: number;
+  targetSeconds: number;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Only spoken lines count; B-roll cues and image slots aren't read aloud
+export const estimateRuntime = (doc: ScriptDocument, wordsPerMinute: number, targetMinutes: number): ScriptRuntime => {
+  const wpm = Math.max(1, wordsPerMinute);
+  const targetSeconds = Math.max(0, targetMinutes) * 60;
+  const fixedShare = doc.sections.reduce((total, section) => total + (SECTION_SHARE[section.kind] || 0), 0);
+  const bodyCount = doc.sections.filter(section => SECTION_SHARE[section.kind] === undefined).length;
+  const bodyShare = bodyCount > 0 ? Math.max(0, 1 - fixedShare) / bodyCount : 0;
+
+  let elapsed = 0;
+  const sections = doc.sections.map((section, index): SectionRuntime => {
+    const words = section.blocks.reduce((total, block) => total + (block.type === 'line' ? countWords(block.text) : 0), 0);
+    const seconds = (words / wpm) * 60;
+    const sectionTarget = section.kind === 'hook'
+      ? Math.min(MAX_HOOK_SECONDS, targetSeconds * SECTION_SHARE.hook!)
+      : targetSeconds * (SECTION_SHARE[section.kind] ?? bodyShare);
+
+    let pace: SectionPace = 'ok';
+    if (targetSeconds > 0) {
+      if (seconds > sectionTarget * (1 + PACE_TOLERANCE)) pace = 'long';
+      else if (seconds < sectionTarget * (1 - PACE_TOLERANCE)) pace = 'short';
+    }
+    if (section.kind === 'hook' && seconds > MAX_HOOK_SECONDS) pace = 'long';
+
+    const runtime = { index, kind: section.kind, title: section.title, words, start: elapsed, seconds, targetSeconds: sectionTarget, pace };
+    elapsed += seconds;
+    return runtime;
+  });
+
+  return { sections, totalSeconds: elapsed, targetSeconds };
+};
+
+// "7:05" or "1:02:30"
+export const formatRuntime = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
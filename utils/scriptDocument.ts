@@ -0,0 +1,165 @@
+import { ScriptBlock, ScriptDocument, ScriptSection, ScriptSectionKind, ScriptSectionVersion } from '../types';
+import { stripCitations } from './citations';
+
+export const SECTION_KINDS: ScriptSectionKind[] = ['hook', 'intro', 'body', 'conclusion', 'theories'];
+
+export const SECTION_LABELS: Record<ScriptSectionKind, string> = {
+  hook: 'Hook',
+  intro: 'Intro',
+  body: 'Body',
+  conclusion: 'Conclusion',
+  theories: '👁️ Alternative Theories'
+};
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const toBlock = (raw: any): ScriptBlock | null => {
+  const text = asText(raw?.text);
+  if (!text) return null;
+  if (raw.type === 'cue') return { type: 'cue', text };
+  if (raw.type === 'image') return asText(raw.url) ? { type: 'image', text, url: asText(raw.url) } : { type: 'image', text };
+  return { type: 'line', speaker: asText(raw.speaker) || 'Narrator', text };
+};
+
+// Fills in anything the model left out, so the rest of the app can trust the shape
+export const normalizeScriptDocument = (raw: any): ScriptDocument => ({
+  title: asText(raw?.title),
+  sections: (Array.isArray(raw?.sections) ? raw.sections : []).map((section: any): ScriptSection => ({
+    kind: SECTION_KINDS.includes(section?.kind) ? section.kind : 'body',
+    title: asText(section?.title),
+    blocks: (Array.isArray(section?.blocks) ? section.blocks : []).map(toBlock).filter((block: ScriptBlock | null): block is ScriptBlock => block !== null)
+  })),
+  suggestions: (Array.isArray(raw?.suggestions) ? raw.suggestions : []).map(asText).filter(Boolean)
+});
+
+// Appends whatever closes the open strings, arrays and objects in a truncated JSON text
+const closeJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+  }
+  return text + (inString ? '"' : '') + stack.reverse().join('');
+};
+
+const MAX_REPAIR_ATTEMPTS = 12;
+
+// Parses a document that is still streaming in. When the cut lands mid-key or after a
+// colon, backs off to the previous comma until the closed-off text is valid JSON.
+export const parsePartialScript = (text: string): ScriptDocument | null => {
+  let candidate = text.slice(text.indexOf('{')).trimEnd();
+  if (!candidate.startsWith('{')) return null;
+  // A finished document may be followed by a status note (e.g. a reroute notice)
+  try {
+    return normalizeScriptDocument(JSON.parse(candidate.slice(0, candidate.lastIndexOf('}') + 1)));
+  } catch { /* still streaming or cut off */ }
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && candidate; attempt++) {
+    try {
+      return normalizeScriptDocument(JSON.parse(closeJson(candidate)));
+    } catch {
+      candidate = candidate.slice(0, Math.max(candidate.lastIndexOf(','), 0)).trimEnd();
+    }
+  }
+  return null;
+};
+
+const blockToMarkdown = (block: ScriptBlock): string => {
+  switch (block.type) {
+    case 'line': return `**${block.speaker}:** ${block.text}`;
+    case 'cue': return `*[B-ROLL: ${block.text}]*`;
+    case 'image': return block.url ? `![Evidence: ${block.text}](${block.url})` : `*[IMAGE: ${block.text}]*`;
+  }
+};
+
+export const sectionToMarkdown = (section: ScriptSection): string =>
+  [`## ${section.title || SECTION_LABELS[section.kind]}`, ...section.blocks.map(blockToMarkdown)].join('\n\n');
+
+// Suggestions are left out; they render as buttons rather than script text
+export const scriptToMarkdown = (doc: ScriptDocument): string =>
+  [doc.title ? `# ${doc.title}` : '', ...doc.sections.map(sectionToMarkdown)].filter(Boolean).join('\n\n');
+
+// Splits rendered Markdown at the section headings. Returns null when the text no longer
+// lines up with the document (e.g. a legacy script), so callers can re-render instead.
+export const splitScriptMarkdown = (markdown: string, sectionCount: number): { preamble: string; sections: string[] } | null => {
+  const parts = markdown.split(/\n+(?=## )/);
+  const preamble = parts[0].startsWith('## ') ? '' : parts.shift() || '';
+  return parts.length === sectionCount ? { preamble, sections: parts } : null;
+};
+
+export const joinScriptMarkdown = (preamble: string, sections: string[]): string =>
+  [preamble, ...sections].filter(Boolean).join('\n\n');
+
+const MAX_SECTION_HISTORY = 10;
+
+const toVersion = (section: ScriptSection): ScriptSectionVersion => ({
+  title: section.title,
+  blocks: section.blocks,
+  note: section.note || 'Original',
+  timestamp: Date.now()
+});
+
+// Replaces a section's take, keeping the outgoing one in its history
+export const replaceSectionTake = (section: ScriptSection, take: Pick<ScriptSection, 'title' | 'blocks'>, note: string): ScriptSection => ({
+  kind: section.kind,
+  title: take.title,
+  blocks: take.blocks,
+  note,
+  history: [...(section.history || []), toVersion(section)].slice(-MAX_SECTION_HISTORY)
+});
+
+// Brings back an earlier take; the current one moves into history so the revert can be undone
+export const revertSectionTake = (section: ScriptSection, versionIdx: number): ScriptSection => {
+  const version = section.history?.[versionIdx];
+  if (!version) return section;
+  return {
+    kind: section.kind,
+    title: version.title,
+    blocks: version.blocks,
+    note: version.note,
+    history: [...section.history!.filter((_, idx) => idx !== versionIdx), toVersion(section)]
+  };
+};
+
+export const getScriptSpeakers = (doc: ScriptDocument): Set<string> =>
+  new Set(doc.sections.flatMap(section => section.blocks.flatMap(block => (block.type === 'line' ? [block.speaker] : []))));
+
+export interface NarrationLine {
+  speaker: string;
+  text: string;
+  sectionStart: boolean; // First spoken line of its section
+}
+
+// Just what gets read aloud: no headings, cues, image slots or suggestions
+export const getNarration = (doc: ScriptDocument): NarrationLine[] =>
+  doc.sections.flatMap(section =>
+    section.blocks
+      .flatMap(block => (block.type === 'line' ? [block] : []))
+      .map((block, idx) => ({ speaker: block.speaker, text: block.text, sectionStart: idx === 0 }))
+  );
+
+// Scripts archived before structured output only have Markdown; their spoken
+// paragraphs look like "**Narrator:** text"
+export const getNarrationFromMarkdown = (markdown: string): NarrationLine[] => {
+  let sectionStart = true;
+  return stripCitations(markdown).split(/\n\s*\n/).flatMap(paragraph => {
+    const trimmed = paragraph.trim();
+    if (trimmed.startsWith('#')) {
+      sectionStart = true;
+      return [];
+    }
+    const match = trimmed.match(/^\*\*(.+?):\*\*\s*([\s\S]+)$/);
+    if (!match) return [];
+    const text = match[2].replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_]/g, '').trim();
+    const line = { speaker: match[1].trim(), text, sectionStart };
+    sectionStart = false;
+    return text ? [line] : [];
+  });
+};
@@ -0,0 +1,291 @@
+import { ScriptDocument, ScriptSource } from '../types';
+import { SECTION_LABELS } from './scriptDocument';
+import { plainCitations } from './citations';
+import { withBibliography } from './sources';
+
+export type ExportFormat = 'md' | 'docx' | 'pdf' | 'fountain';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'md', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'docx', label: 'Word (.docx)', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { id: 'pdf', label: 'PDF (with images)', extension: 'pdf', mimeType: 'application/pdf' },
+  { id: 'fountain', label: 'Fountain screenplay', extension: 'fountain', mimeType: 'text/plain' }
+];
+
+export interface ScriptExportInput {
+  title: string;
+  channel: string;
+  markdown: string;                  // What the viewer shows, including citation markers
+  document: ScriptDocument | null;   // null for scripts archived before structured output
+  sources: ScriptSource[];
+}
+
+// One flat shape for every exporter, whether the script has a document or only Markdown
+type ExportBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'line'; speaker: string; text: string }
+  | { kind: 'cue'; text: string }
+  | { kind: 'image'; text: string; url?: string }
+  | { kind: 'text'; text: string };
+
+const stripMarkdown = (text: string) =>
+  plainCitations(text).replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/[*_`>]/g, '').trim();
+
+const markdownToBlocks = (markdown: string): { title: string; blocks: ExportBlock[] } => {
+  let title = '';
+  const blocks: ExportBlock[] = [];
+  markdown.split(/\n\s*\n/).forEach(raw => {
+    const paragraph = raw.trim();
+    if (!paragraph || paragraph === '---') return;
+    const image = paragraph.match(/^!\[([^\]]*)\]\(([^)]+)\)$/);
+    const line = paragraph.match(/^\*\*(.+?):\*\*\s*([\s\S]+)$/);
+    const cue = paragraph.match(/^\*\[B-ROLL:\s*(.+)\]\*$/);
+    if (paragraph.startsWith('# ') && !title) title = stripMarkdown(paragraph.slice(2));
+    else if (paragraph.startsWith('#')) blocks.push({ kind: 'heading', text: stripMarkdown(paragraph.replace(/^#+\s*/, '')) });
+    else if (image) blocks.push({ kind: 'image', text: image[1].replace(/^Evidence:\s*/, ''), url: image[2] });
+    else if (line) blocks.push({ kind: 'line', speaker: line[1].trim(), text: stripMarkdown(line[2]) });
+    else if (cue) blocks.push({ kind: 'cue', text: cue[1] });
+    else blocks.push({ kind: 'text', text: stripMarkdown(paragraph) });
+  });
+  return { title, blocks };
+};
+
+const documentToBlocks = (doc: ScriptDocument): ExportBlock[] =>
+  doc.sections.flatMap(section => [
+    { kind: 'heading' as const, text: section.title || SECTION_LABELS[section.kind] },
+    ...section.blocks.map((block): ExportBlock => {
+      switch (block.type) {
+        case 'line': return { kind: 'line', speaker: block.speaker, text: block.text };
+        case 'cue': return { kind: 'cue', text: block.text };
+        case 'image': return { kind: 'image', text: block.text, url: block.url };
+      }
+    })
+  ]);
+
+// Structured scripts export from their document, but the markers and any in-place
+// section edits live in the Markdown, so a legacy script falls back to parsing that
+const toExportScript = (input: ScriptExportInput) => {
+  if (input.document) {
+    return { title: input.document.title || input.title, blocks: documentToBlocks(input.document) };
+  }
+  const parsed = markdownToBlocks(input.markdown);
+  return { title: parsed.title || input.title, blocks: parsed.blocks };
+};
+
+// ----------------------------------------------------------------------
+// FOUNTAIN: sections become forced scene headings, speakers become characters
+// ----------------------------------------------------------------------
+const toFountain = (input: ScriptExportInput): string => {
+  const { title, blocks } = toExportScript(input);
+  const titlePage = [
+    `Title: ${title}`,
+    input.channel ? `Credit: Written for\nAuthor: ${input.channel}` : '',
+    `Draft date: ${new Date().toLocaleDateString()}`
+  ].filter(Boolean).join('\n');
+
+  const body = blocks.map(block => {
+    switch (block.kind) {
+      case 'heading': return `.${block.text.toUpperCase()}`;
+      // "@" forces a character cue even when the name isn't plain uppercase Latin
+      case 'line': return `@${block.speaker.toUpperCase()}\n${block.text}`;
+      case 'cue': return `[B-ROLL: ${block.text}]`;
+      case 'image': return `[IMAGE: ${block.text}]${block.url ? ` [[${block.url}]]` : ''}`;
+      case 'text': return `!${block.text}`;
+    }
+  });
+
+  const sources = input.sources.length > 0
+    ? ['# Sources', ...input.sources.map((source, idx) => `!${idx + 1}. ${source.title || 'Web Source'} [[${source.uri}]]`)]
+    : [];
+
+  return [titlePage, ...body, ...sources].join('\n\n') + '\n';
+};
+
+// ----------------------------------------------------------------------
+// DOCX: speaker names bold, cues and image slots set apart for editors
+// ----------------------------------------------------------------------
+const toDocx = async (input: ScriptExportInput): Promise<Blob> => {
+  const { Document, Packer, Paragraph, TextRun, HeadingLevel, ExternalHyperlink } = await import('docx');
+  const { title, blocks } = toExportScript(input);
+
+  const body = blocks.map(block => {
+    switch (block.kind) {
+      case 'heading':
+        return new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_1, spacing: { before: 360, after: 120 } });
+      case 'line':
+        return new Paragraph({
+          spacing: { after: 200 },
+          children: [new TextRun({ text: `${block.speaker.toUpperCase()}: `, bold: true }), new TextRun(block.text)]
+        });
+      case 'cue':
+        return new Paragraph({ spacing: { after: 200 }, children: [new TextRun({ text: `[B-ROLL: ${block.text}]`, italics: true, color: '777777' })] });
+      case 'image':
+        return new Paragraph({
+          spacing: { after: 200 },
+          children: [
+            new TextRun({ text: `[IMAGE: ${block.text}]`, italics: true, color: '777777' }),
+            ...(block.url ? [new TextRun(' '), new ExternalHyperlink({ link: block.url, children: [new TextRun({ text: block.url, style: 'Hyperlink' })] })] : [])
+          ]
+        });
+      case 'text':
+        return new Paragraph({ text: block.text, spacing: { after: 200 } });
+    }
+  });
+
+  const sources = input.sources.length > 0 ? [
+    new Paragraph({ text: 'Sources', heading: HeadingLevel.HEADING_1, spacing: { before: 480, after: 120 } }),
+    ...input.sources.map((source, idx) => new Paragraph({
+      children: [
+        new TextRun(`${idx + 1}. `),
+        new ExternalHyperlink({ link: source.uri, children: [new TextRun({ text: source.title || 'Web Source', style: 'Hyperlink' })] })
+      ]
+    }))
+  ] : [];
+
+  const doc = new Document({
+    creator: input.channel || 'VIOLEN AI',
+    title,
+    sections: [{
+      children: [
+        new Paragraph({ text: title, heading: HeadingLevel.TITLE }),
+        ...(input.channel ? [new Paragraph({ children: [new TextRun({ text: input.channel, color: '777777' })], spacing: { after: 240 } })] : []),
+        ...body,
+        ...sources
+      ]
+    }]
+  });
+  return Packer.toBlob(doc);
+};
+
+// ----------------------------------------------------------------------
+// PDF: printable layout with the evidence photos embedded
+// ----------------------------------------------------------------------
+const IMAGE_TIMEOUT_MS = 8000;
+const MAX_IMAGE_PX = 1200;
+
+// Goes through a canvas so any format the browser can show ends up as JPEG. Hosts that
+// don't allow cross-origin reads taint the canvas; those images fall back to a link.
+const loadImageAsJpeg = (url: string): Promise<{ data: string; width: number; height: number } | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    const timer = setTimeout(() => resolve(null), IMAGE_TIMEOUT_MS);
+    img.crossOrigin = 'anonymous';
+    img.referrerPolicy = 'no-referrer';
+    img.onload = () => {
+      clearTimeout(timer);
+      try {
+        const scale = Math.min(1, MAX_IMAGE_PX / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve({ data: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height });
+      } catch {
+        resolve(null);
+      }
+    };
+    img.onerror = () => {
+      clearTimeout(timer);
+      resolve(null);
+    };
+    img.src = url;
+  });
+
+// The built-in PDF fonts only cover Latin-1 plus a few typographic marks; drop the rest (e.g. emoji)
+const toPdfText = (text: string) => text.replace(/[^\x20-\xFF–—‘’“”…\n]/g, '').trim();
+
+const toPdf = async (input: ScriptExportInput): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const { title, blocks } = toExportScript(input);
+  const images = await Promise.all(blocks.map(block => (block.kind === 'image' && block.url ? loadImageAsJpeg(block.url) : Promise.resolve(null))));
+
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+  const margin = 60;
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const width = pageWidth - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  const write = (text: string, { size = 11, style = 'normal', color = 20, gap = 10, indent = 0 } = {}) => {
+    pdf.setFont('helvetica', style);
+    pdf.setFontSize(size);
+    pdf.setTextColor(color);
+    const lineHeight = size * 1.4;
+    (pdf.splitTextToSize(toPdfText(text), width - indent) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin + indent, y + size);
+      y += lineHeight;
+    });
+    y += gap;
+  };
+
+  write(title, { size: 22, style: 'bold', gap: 4 });
+  if (input.channel) write(input.channel, { size: 11, color: 120, gap: 20 });
+
+  blocks.forEach((block, idx) => {
+    switch (block.kind) {
+      case 'heading':
+        y += 10;
+        write(block.text.toUpperCase(), { size: 13, style: 'bold', color: 160 });
+        break;
+      case 'line':
+        write(block.speaker.toUpperCase(), { size: 10, style: 'bold', gap: 2 });
+        write(block.text, { indent: 16 });
+        break;
+      case 'cue':
+        write(`[B-ROLL: ${block.text}]`, { size: 10, style: 'italic', color: 120 });
+        break;
+      case 'image': {
+        const image = images[idx];
+        if (image) {
+          const drawWidth = Math.min(width, 360);
+          const drawHeight = (image.height / image.width) * drawWidth;
+          ensureSpace(drawHeight + 30);
+          pdf.addImage(image.data, 'JPEG', margin, y, drawWidth, drawHeight);
+          y += drawHeight + 6;
+          write(`Evidence: ${block.text}`, { size: 9, style: 'italic', color: 120, gap: 14 });
+        } else {
+          write(`[IMAGE: ${block.text}]${block.url ? ` ${block.url}` : ''}`, { size: 10, style: 'italic', color: 120 });
+        }
+        break;
+      }
+      case 'text':
+        write(block.text);
+        break;
+    }
+  });
+
+  if (input.sources.length > 0) {
+    y += 16;
+    write('SOURCES', { size: 13, style: 'bold', color: 160 });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    input.sources.forEach((source, idx) => {
+      (pdf.splitTextToSize(toPdfText(`${idx + 1}. ${source.title || 'Web Source'}`), width) as string[]).forEach(line => {
+        ensureSpace(14);
+        pdf.setTextColor(30, 64, 175);
+        pdf.textWithLink(line, margin, y + 10, { url: source.uri });
+        y += 14;
+      });
+      y += 4;
+    });
+  }
+
+  return pdf.output('blob');
+};
+
+export const exportScript = async (format: ExportFormat, input: ScriptExportInput): Promise<Blob | string> => {
+  switch (format) {
+    case 'md': return withBibliography(input.markdown, input.sources);
+    case 'fountain': return toFountain(input);
+    case 'docx': return toDocx(input);
+    case 'pdf': return toPdf(input);
+  }
+};
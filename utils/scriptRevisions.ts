@@ -0,0 +1,37 @@
+import { SavedScript, ScriptRevision } from '../types';
+
+// Scripts archived before revision history count as a single revision
+export const getRevisions = (script: SavedScript): ScriptRevision[] =>
+  script.revisions && script.revisions.length > 0
+    ? script.revisions
+    : [{
+        id: script.id,
+        content: script.content,
+        timestamp: script.timestamp,
+        sources: script.sources,
+        factCheck: script.factCheck,
+        document: script.document
+      }];
+
+export const getLatestRevision = (script: SavedScript): ScriptRevision => {
+  const revisions = getRevisions(script);
+  return revisions[revisions.length - 1];
+};
+
+export const createSavedScript = (title: string, channel: string, revision: ScriptRevision): SavedScript => ({
+  id: revision.id,
+  title,
+  channel,
+  content: revision.content,
+  timestamp: revision.timestamp,
+  sources: revision.sources,
+  factCheck: revision.factCheck,
+  document: revision.document,
+  revisions: [revision]
+});
+
+export const appendRevision = (script: SavedScript, revision: ScriptRevision, title: string, channel: string): SavedScript => ({
+  ...createSavedScript(title, channel, revision),
+  id: script.id,
+  revisions: [...getRevisions(script), revision]
+});
@@ -0,0 +1,38 @@
+import { GroundingChunk, ScriptSource } from '../types';
+import { plainCitations } from './citations';
+
+// Grounding often returns the same page several times; keep the first occurrence so numbering stays stable
+export const toScriptSources = (chunks: GroundingChunk[] = []): ScriptSource[] => {
+  const seen = new Set<string>();
+  return chunks.reduce<ScriptSource[]>((sources, chunk) => {
+    const uri = chunk.web?.uri;
+    if (!uri || seen.has(uri)) return sources;
+    seen.add(uri);
+    sources.push({ title: chunk.web?.title, uri });
+    return sources;
+  }, []);
+};
+
+// Adds sources from a follow-up request after the existing ones, so existing citation
+// numbers stay put. Pair with citationNumbers(chunks, existing uris) for the markers.
+export const mergeScriptSources = (existing: ScriptSource[], chunks: GroundingChunk[] = []): ScriptSource[] => {
+  const known = new Set(existing.map(source => source.uri));
+  return [...existing, ...toScriptSources(chunks).filter(source => !known.has(source.uri))];
+};
+
+export const getSourceDomain = (source: { title?: string; uri?: string }): string => {
+  try {
+    const host = new URL(source.uri || '').hostname.replace(/^www\./, '');
+    // Grounding links go through a Google redirect; the title carries the real site name
+    return host.endsWith('vertexaisearch.cloud.google.com') ? source.title || host : host;
+  } catch {
+    return source.title || '';
+  }
+};
+
+export const sourcesToMarkdown = (sources: ScriptSource[]): string =>
+  ['## Sources', '', ...sources.map((source, idx) => `${idx + 1}. [${source.title || 'Web Source'}](${source.uri})`)].join('\n');
+
+// The script as it should leave the app: body plus a numbered bibliography
+export const withBibliography = (script: string, sources: ScriptSource[] = []): string =>
+  sources.length > 0 ? `${plainCitations(script).trimEnd()}\n\n---\n\n${sourcesToMarkdown(sources)}\n` : script;
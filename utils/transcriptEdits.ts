@@ -0,0 +1,43 @@
+import { TranscriptSegment, VocabularyEntry } from '../types';
+
+export interface ReplaceOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Unicode-aware word boundaries, so names like "Zoë" match as whole words too
+export const buildFindPattern = (find: string, { matchCase, wholeWord }: ReplaceOptions): RegExp | null => {
+  if (!find) return null;
+  const body = escapeRegExp(find);
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])` : body;
+  return new RegExp(source, `gu${matchCase ? '' : 'i'}`);
+};
+
+export const countMatches = (segments: TranscriptSegment[], pattern: RegExp | null): number =>
+  pattern ? segments.reduce((total, segment) => total + (segment.text.match(pattern)?.length || 0), 0) : 0;
+
+// Replaces text only; start/end times are never touched
+export const replaceInSegments = (segments: TranscriptSegment[], pattern: RegExp | null, replacement: string): { segments: TranscriptSegment[]; count: number } => {
+  if (!pattern) return { segments, count: 0 };
+  let count = 0;
+  const next = segments.map(segment => {
+    const text = segment.text.replace(pattern, () => {
+      count++;
+      return replacement;
+    });
+    return text === segment.text ? segment : { ...segment, text };
+  });
+  return { segments: count > 0 ? next : segments, count };
+};
+
+// Vocabulary rules are whole-word and case-insensitive, applied in list order
+export const applyVocabulary = (segments: TranscriptSegment[], vocabulary: VocabularyEntry[]): { segments: TranscriptSegment[]; count: number } =>
+  vocabulary.reduce(
+    (acc, entry) => {
+      const result = replaceInSegments(acc.segments, buildFindPattern(entry.from.trim(), { matchCase: false, wholeWord: true }), entry.to);
+      return { segments: result.segments, count: acc.count + result.count };
+    },
+    { segments, count: 0 }
+  );